@@ -0,0 +1,201 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MetadataCacheEntry, MetadataCacheStore } from '../utils/cache';
+import { FileSystemCacheStore } from '../utils/cache/fs';
+import {
+  KeyValueCacheStore,
+  type KeyValueClient,
+} from '../utils/cache/key-value';
+import { MemoryCacheStore } from '../utils/cache/memory';
+
+const entry: MetadataCacheEntry = {
+  storedAt: 1_700_000_000_000,
+  value: {
+    metadata: {
+      description: 'Test Description',
+      title: 'Test Title',
+    },
+    metadataRevisionId: 'rev-123',
+  },
+};
+
+// In-process fake of a Redis-style client
+function createFakeKeyValueClient(): KeyValueClient & {
+  data: Map<string, string>;
+} {
+  const data = new Map<string, string>();
+  return {
+    data,
+    del: (key) => Promise.resolve(data.delete(key)),
+    get: (key) => Promise.resolve(data.get(key) ?? null),
+    // Returns one key per page to exercise the cursor
+    scan: (cursor, { match }) => {
+      const prefix = match.slice(0, -1);
+      const keys = [...data.keys()].filter((key) => key.startsWith(prefix));
+      const index = Number(cursor);
+      const next = index + 1 < keys.length ? String(index + 1) : '0';
+      return Promise.resolve([next, keys.slice(index, index + 1)]);
+    },
+    set: (key, value) => {
+      data.set(key, value);
+      return Promise.resolve('OK');
+    },
+  };
+}
+
+function describeStore(
+  name: string,
+  createStore: () => MetadataCacheStore | Promise<MetadataCacheStore>
+) {
+  describe(name, () => {
+    let store: MetadataCacheStore;
+
+    beforeEach(async () => {
+      store = await createStore();
+    });
+
+    it('should return undefined for missing keys', async () => {
+      expect(await store.get('/missing')).toBeUndefined();
+    });
+
+    it('should store and retrieve entries', async () => {
+      await store.set('/test', entry);
+      expect(await store.get('/test')).toEqual(entry);
+    });
+
+    it('should overwrite existing entries', async () => {
+      const updated = { ...entry, storedAt: entry.storedAt + 1 };
+      await store.set('/test', entry);
+      await store.set('/test', updated);
+      expect(await store.get('/test')).toEqual(updated);
+    });
+
+    it('should list keys', async () => {
+      await store.set('/', entry);
+      await store.set('/blog/hello world', entry);
+      expect((await store.keys()).sort()).toEqual(['/', '/blog/hello world']);
+    });
+
+    it('should delete entries', async () => {
+      await store.set('/a', entry);
+      await store.set('/b', entry);
+      await store.delete('/a');
+      await store.delete('/missing');
+
+      expect(await store.get('/a')).toBeUndefined();
+      expect(await store.keys()).toEqual(['/b']);
+    });
+
+    it('should clear all entries', async () => {
+      await store.set('/a', entry);
+      await store.set('/b', entry);
+      await store.clear();
+
+      expect(await store.keys()).toEqual([]);
+    });
+  });
+}
+
+describe('Cache stores', () => {
+  describeStore('MemoryCacheStore', () => new MemoryCacheStore());
+
+  describeStore(
+    'KeyValueCacheStore',
+    () => new KeyValueCacheStore({ client: createFakeKeyValueClient() })
+  );
+
+  describe('KeyValueCacheStore', () => {
+    it('should prefix keys and only clear its own keys', async () => {
+      const client = createFakeKeyValueClient();
+      client.data.set('other:key', 'value');
+      const store = new KeyValueCacheStore({ client, prefix: 'metadata:' });
+
+      await store.set('/test', entry);
+      expect([...client.data.keys()]).toEqual(['other:key', 'metadata:/test']);
+
+      await store.clear();
+      expect([...client.data.keys()]).toEqual(['other:key']);
+    });
+
+    it('should expire entries after their TTL and stale window', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(entry.storedAt + 1000);
+      const client = createFakeKeyValueClient();
+      const set = vi.spyOn(client, 'set');
+      const store = new KeyValueCacheStore({ client });
+
+      await store.set('/test', { ...entry, expiresAt: entry.storedAt + 6000 });
+      await store.set('/forever', entry);
+      vi.useRealTimers();
+
+      expect(set).toHaveBeenNthCalledWith(
+        1,
+        'generate-metadata:/test',
+        expect.any(String),
+        { px: 5000 }
+      );
+      expect(set).toHaveBeenNthCalledWith(
+        2,
+        'generate-metadata:/forever',
+        expect.any(String)
+      );
+    });
+
+    it('should accept clients that deserialize JSON automatically', async () => {
+      const client = createFakeKeyValueClient();
+      const store = new KeyValueCacheStore({
+        client: { ...client, get: () => Promise.resolve(entry) },
+      });
+
+      expect(await store.get('/test')).toEqual(entry);
+    });
+  });
+
+  describe('FileSystemCacheStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'generate-metadata-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { force: true, recursive: true });
+    });
+
+    describeStore(
+      'with an existing directory',
+      () => new FileSystemCacheStore({ directory })
+    );
+
+    it('should create the directory when writing', async () => {
+      const store = new FileSystemCacheStore({
+        directory: join(directory, 'nested', 'cache'),
+      });
+
+      expect(await store.keys()).toEqual([]);
+      await store.set('/test', entry);
+      expect(await store.get('/test')).toEqual(entry);
+    });
+
+    it('should store keys longer than a filename', async () => {
+      const store = new FileSystemCacheStore({ directory });
+      const key = `/search?q=${'é'.repeat(200)}`;
+
+      await store.set(key, entry);
+
+      expect(await store.get(key)).toEqual(entry);
+      expect(await store.keys()).toEqual([key]);
+      await store.delete(key);
+      expect(await store.keys()).toEqual([]);
+    });
+
+    it('should share entries between store instances', async () => {
+      await new FileSystemCacheStore({ directory }).set('/test', entry);
+
+      const store = new FileSystemCacheStore({ directory });
+      expect(await store.get('/test')).toEqual(entry);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CircuitBreaker,
+  isCircuitBreakerFailure,
+} from '../utils/circuit-breaker';
+import {
+  GenerateMetadataAuthError,
+  InvalidResponseError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+} from '../utils/errors';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow requests while closed', () => {
+    const breaker = new CircuitBreaker();
+
+    expect(breaker.state).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('should open after consecutive failures reach the threshold', () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, onStateChange });
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+    expect(onStateChange).toHaveBeenCalledWith({
+      failures: 2,
+      previousState: 'closed',
+      state: 'open',
+    });
+  });
+
+  it('should reset the failure count after a success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should allow a single trial request once the cooldown has elapsed', () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({
+      cooldownMs: 1000,
+      failureThreshold: 1,
+      onStateChange,
+    });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(999);
+    expect(breaker.canRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.state).toBe('half-open');
+    // Only one trial request at a time
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+    expect(onStateChange.mock.calls.map(([change]) => change.state)).toEqual([
+      'open',
+      'half-open',
+      'closed',
+    ]);
+  });
+
+  it('should open again when the trial request fails', () => {
+    const breaker = new CircuitBreaker({
+      cooldownMs: 1000,
+      failureThreshold: 3,
+    });
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('should only count errors that mean the API is unavailable', () => {
+    expect(isCircuitBreakerFailure(new NetworkError('Offline'))).toBe(true);
+    expect(isCircuitBreakerFailure(new TimeoutError('Slow'))).toBe(true);
+    expect(isCircuitBreakerFailure(new Error('fetch failed'))).toBe(true);
+    expect(
+      isCircuitBreakerFailure(
+        new InvalidResponseError('Unavailable', { status: 503 })
+      )
+    ).toBe(true);
+    expect(
+      isCircuitBreakerFailure(
+        new GenerateMetadataAuthError('Unauthorized', { status: 401 })
+      )
+    ).toBe(false);
+    expect(
+      isCircuitBreakerFailure(new NotFoundError('Missing', { status: 404 }))
+    ).toBe(false);
+  });
+
+  it('should treat client errors as a successful trial', () => {
+    const breaker = new CircuitBreaker({
+      cooldownMs: 1000,
+      failureThreshold: 1,
+    });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordError(new NotFoundError('Missing', { status: 404 }));
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should ignore errors thrown by onStateChange', () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      onStateChange: () => {
+        throw new Error('Callback failed');
+      },
+    });
+
+    expect(() => breaker.recordFailure()).not.toThrow();
+    expect(breaker.state).toBe('open');
+  });
+});
@@ -0,0 +1,58 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { builtinModules } from 'node:module';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { build } from 'tsup';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+// Entries that are bundled for browsers and edge runtimes
+const coreEntries = ['index', 'next', 'tanstack-start'];
+
+const nodeBuiltins = new Set(builtinModules);
+
+type Metafile = {
+  outputs: Record<
+    string,
+    { entryPoint?: string; imports: { path: string; external?: boolean }[] }
+  >;
+};
+
+describe('Entry points', () => {
+  let outDir: string;
+  let metafile: Metafile;
+
+  beforeAll(async () => {
+    outDir = await mkdtemp(join(tmpdir(), 'generate-metadata-build-'));
+    await build({
+      config: false,
+      dts: false,
+      entry: coreEntries.map((entry) => `src/${entry}.ts`),
+      format: ['esm'],
+      metafile: true,
+      outDir,
+      silent: true,
+      splitting: false,
+    });
+    metafile = JSON.parse(
+      await readFile(join(outDir, 'metafile-esm.json'), 'utf8')
+    );
+  });
+
+  afterAll(async () => {
+    await rm(outDir, { force: true, recursive: true });
+  });
+
+  it.each(coreEntries)('should not import Node.js modules in %s', (entry) => {
+    const output = Object.values(metafile.outputs).find(
+      ({ entryPoint }) => entryPoint === `src/${entry}.ts`
+    );
+
+    expect(output).toBeDefined();
+    const imports = output?.imports.map(({ path }) => path) ?? [];
+    expect(
+      imports.filter(
+        (path) => path.startsWith('node:') || nodeBuiltins.has(path)
+      )
+    ).toEqual([]);
+  });
+});
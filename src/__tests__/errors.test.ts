@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createResponseError,
+  GenerateMetadataAuthError,
+  GenerateMetadataError,
+  InvalidResponseError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+  toGenerateMetadataError,
+} from '../utils/errors';
+
+describe('createResponseError', () => {
+  it.each([
+    [401, GenerateMetadataAuthError],
+    [403, GenerateMetadataAuthError],
+    [404, NotFoundError],
+    [408, TimeoutError],
+    [504, TimeoutError],
+    [500, InvalidResponseError],
+  ])('should map status %i to a typed error', (status, ErrorClass) => {
+    const error = createResponseError({
+      error: { message: 'nope' },
+      response: new Response(null, { status }),
+    });
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(GenerateMetadataError);
+    expect(error.status).toBe(status);
+    expect(error.cause).toEqual({ message: 'nope' });
+  });
+
+  it('should prefer a status passed through a server function', () => {
+    const error = createResponseError({ error: {}, status: 401 });
+
+    expect(error).toBeInstanceOf(GenerateMetadataAuthError);
+  });
+
+  it('should report responses without data or status as invalid', () => {
+    const error = createResponseError({ error: undefined });
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error.message).toBe('API returned no data');
+  });
+});
+
+describe('toGenerateMetadataError', () => {
+  it('should keep typed errors as they are', () => {
+    const error = new NotFoundError('missing');
+
+    expect(toGenerateMetadataError(error)).toBe(error);
+  });
+
+  it('should map timeouts to TimeoutError', () => {
+    const error = toGenerateMetadataError(
+      new DOMException('The operation timed out', 'TimeoutError')
+    );
+
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
+
+  it('should map anything else to NetworkError', () => {
+    const cause = new TypeError('fetch failed');
+    const error = toGenerateMetadataError(cause);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toBe('Failed to reach the API: fetch failed');
+    expect(error.cause).toBe(cause);
+  });
+});
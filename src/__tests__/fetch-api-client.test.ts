@@ -223,6 +223,202 @@ describe('FetchApiClient', () => {
     });
   });
 
+  describe('metadataGetMany', () => {
+    it('should fetch each path and keep the results in order', async () => {
+      mockClient.GET.mockImplementation((_url: string, args: any) =>
+        Promise.resolve({
+          data: { metadata: { title: args.params.query.path } },
+        })
+      );
+
+      const result = await fetchApiClient.metadataGetMany({
+        headers: { Authorization: 'Bearer test-api-key' },
+        params: {
+          path: { dsn: 'test-dsn' },
+          query: { paths: ['/a', '/b'] },
+        },
+      });
+
+      expect(mockClient.GET).toHaveBeenCalledWith(
+        '/v1/{dsn}/metadata/get-latest',
+        {
+          headers: { Authorization: 'Bearer test-api-key' },
+          params: { path: { dsn: 'test-dsn' }, query: { path: '/a' } },
+        }
+      );
+      expect(result.results).toEqual([
+        { status: 'fulfilled', value: { data: { metadata: { title: '/a' } } } },
+        { status: 'fulfilled', value: { data: { metadata: { title: '/b' } } } },
+      ]);
+    });
+
+    it('should settle failed paths without failing the batch', async () => {
+      const error = new Error('Network error');
+      mockClient.GET.mockRejectedValueOnce(error).mockResolvedValueOnce({
+        data: { metadata: { title: 'B' } },
+      });
+
+      const result = await fetchApiClient.metadataGetMany({
+        params: {
+          path: { dsn: 'test-dsn' },
+          query: { paths: ['/a', '/b'] },
+        },
+      });
+
+      expect(result.results).toEqual([
+        { reason: error, status: 'rejected' },
+        { status: 'fulfilled', value: { data: { metadata: { title: 'B' } } } },
+      ]);
+    });
+
+    it('should limit the number of requests in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockClient.GET.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return { data: { metadata: {} } };
+      });
+
+      await fetchApiClient.metadataGetMany({
+        concurrency: 2,
+        params: {
+          path: { dsn: 'test-dsn' },
+          query: { paths: ['/a', '/b', '/c', '/d', '/e'] },
+        },
+      });
+
+      expect(mockClient.GET).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+
+  describe('sitesGetSite', () => {
+    it('should call GET with correct endpoint and args', async () => {
+      const mockResponse = {
+        data: {
+          site: {
+            autoAcceptAiSuggestions: false,
+            autoScrapeEnabled: false,
+            hostname: 'example.com',
+            id: 'site-123',
+            name: 'Example',
+            titleTemplate: '%s | Example',
+          },
+        },
+        error: undefined,
+      };
+
+      mockClient.GET.mockResolvedValue(mockResponse);
+
+      const args = {
+        headers: {
+          Authorization: 'Bearer test-api-key',
+        },
+        params: {
+          path: { dsn: 'test-dsn' },
+        },
+      };
+
+      const result = await fetchApiClient.sitesGetSite(args);
+
+      expect(mockClient.GET).toHaveBeenCalledWith(
+        '/v1/{dsn}/sites/get-site',
+        args
+      );
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe('sitesRegisterBuild', () => {
+    it('should call POST with correct endpoint and args', async () => {
+      const mockResponse = {
+        data: { message: 'ok', success: true },
+        error: undefined,
+      };
+
+      mockClient.POST.mockResolvedValue(mockResponse);
+
+      const args = {
+        body: { buildId: 'build-123', framework: 'next' as const },
+        params: {
+          path: { dsn: 'test-dsn' },
+        },
+      };
+
+      const result = await fetchApiClient.sitesRegisterBuild(args);
+
+      expect(mockClient.POST).toHaveBeenCalledWith(
+        '/v1/{dsn}/sites/register-build',
+        args
+      );
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe('timeouts and retries', () => {
+    const args = {
+      params: {
+        path: { dsn: 'test-dsn' },
+        query: { path: '/test-path' },
+      },
+    };
+
+    it('should pass an abort signal when a timeout is configured', async () => {
+      mockClient.GET.mockResolvedValue({
+        data: { metadata: {} },
+        error: undefined,
+      });
+      const client = new FetchApiClient({ timeoutMs: 1000 });
+
+      await client.metadataGetLatest(args);
+
+      expect(mockClient.GET).toHaveBeenCalledWith(
+        '/v1/{dsn}/metadata/get-latest',
+        { ...args, signal: expect.any(AbortSignal) }
+      );
+    });
+
+    it('should retry 5xx responses when retry is configured', async () => {
+      const mockResponse = {
+        data: { metadata: { title: 'Test Title' } },
+        error: undefined,
+        response: new Response(null, { status: 200 }),
+      };
+      mockClient.GET.mockResolvedValueOnce({
+        data: undefined,
+        error: { message: 'Service unavailable' },
+        response: new Response(null, { status: 503 }),
+      }).mockResolvedValueOnce(mockResponse);
+      const client = new FetchApiClient({
+        retry: { baseDelayMs: 1, retries: 1 },
+      });
+
+      const result = await client.metadataGetLatest(args);
+
+      expect(result).toBe(mockResponse);
+      expect(mockClient.GET).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry when the caller aborts', async () => {
+      const controller = new AbortController();
+      mockClient.GET.mockImplementation(() => {
+        controller.abort();
+        return Promise.reject(new Error('This operation was aborted'));
+      });
+      const client = new FetchApiClient({
+        retry: { baseDelayMs: 1, retries: 2 },
+      });
+
+      await expect(
+        client.metadataGetLatest({ ...args, signal: controller.signal })
+      ).rejects.toThrow('This operation was aborted');
+      expect(mockClient.GET).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('environment variable support', () => {
     it('should use production URL by default', () => {
       // The mock already uses the production URL
@@ -243,5 +439,21 @@ describe('FetchApiClient', () => {
       expect(client.client).toBe(mockClient);
       expect(createClient).toHaveBeenCalled();
     });
+
+    it('should use a custom base URL, fetch and default headers', () => {
+      const customFetch = vi.fn();
+
+      new FetchApiClient({
+        baseUrl: 'https://staging.example.com/api/openapi',
+        fetch: customFetch,
+        headers: { 'x-proxy-token': 'secret' },
+      });
+
+      expect(createClient).toHaveBeenLastCalledWith({
+        baseUrl: 'https://staging.example.com/api/openapi',
+        fetch: customFetch,
+        headers: { 'x-proxy-token': 'secret' },
+      });
+    });
   });
 });
@@ -0,0 +1,118 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fileProvider } from '../utils/providers/file';
+
+describe('fileProvider', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'generate-metadata-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { force: true, recursive: true });
+  });
+
+  it('should read files named after their path', async () => {
+    await mkdir(join(directory, 'blog'));
+    await writeFile(
+      join(directory, 'index.json'),
+      JSON.stringify({ metadata: { title: 'Home' } })
+    );
+    await writeFile(
+      join(directory, 'blog', '[slug].json'),
+      JSON.stringify({ metadata: { title: 'Post' } })
+    );
+    const provider = fileProvider(directory, { watch: false });
+
+    expect(await provider.getMetadata({ path: '/' })).toEqual({
+      metadata: { title: 'Home' },
+    });
+    expect(await provider.getMetadata({ path: '/blog/hello' })).toEqual({
+      metadata: { title: 'Post' },
+    });
+    expect(await provider.getMetadata({ path: '/about' })).toBeNull();
+  });
+
+  it('should prefer the most specific pattern', async () => {
+    await writeFile(
+      join(directory, 'routes.json'),
+      JSON.stringify({
+        '/**': { metadata: { title: 'Default' } },
+        '/blog/*': { metadata: { title: 'Post' } },
+        '/blog/featured': { metadata: { title: 'Featured' } },
+      })
+    );
+    const provider = fileProvider(directory, { watch: false });
+
+    expect(await provider.getMetadata({ path: '/blog/featured' })).toEqual({
+      metadata: { title: 'Featured' },
+    });
+    expect(await provider.getMetadata({ path: '/blog/hello' })).toEqual({
+      metadata: { title: 'Post' },
+    });
+    expect(await provider.getMetadata({ path: '/blog/hello?page=2' })).toEqual({
+      metadata: { title: 'Post' },
+    });
+    expect(await provider.getMetadata({ path: '/about' })).toEqual({
+      metadata: { title: 'Default' },
+    });
+  });
+
+  it('should read YAML with the given parser', async () => {
+    await writeFile(join(directory, 'routes.yaml'), 'title: Home');
+    const parseYaml = vi.fn(() => ({ '/': { metadata: { title: 'Home' } } }));
+
+    const provider = fileProvider(directory, { parseYaml, watch: false });
+
+    expect(await provider.getMetadata({ path: '/' })).toEqual({
+      metadata: { title: 'Home' },
+    });
+    expect(parseYaml).toHaveBeenCalledWith('title: Home');
+  });
+
+  it('should reject YAML without a parser and invalid entries', async () => {
+    await writeFile(join(directory, 'routes.yml'), 'title: Home');
+
+    await expect(
+      fileProvider(directory, { watch: false }).getMetadata({ path: '/' })
+    ).rejects.toThrow('pass `parseYaml` to fileProvider');
+
+    await rm(join(directory, 'routes.yml'));
+    await writeFile(
+      join(directory, 'routes.json'),
+      JSON.stringify({ '/': { title: 'Home' } })
+    );
+
+    await expect(
+      fileProvider(directory, { watch: false }).getMetadata({ path: '/' })
+    ).rejects.toThrow('Invalid metadata for "/" in routes.json');
+  });
+
+  it('should reload files when they change', async () => {
+    const file = join(directory, 'index.json');
+    await writeFile(file, JSON.stringify({ metadata: { title: 'Before' } }));
+    const provider = fileProvider(directory, { watch: true });
+
+    try {
+      expect(await provider.getMetadata({ path: '/' })).toEqual({
+        metadata: { title: 'Before' },
+      });
+
+      await writeFile(file, JSON.stringify({ metadata: { title: 'After' } }));
+
+      await vi.waitFor(
+        async () => {
+          expect(await provider.getMetadata({ path: '/' })).toEqual({
+            metadata: { title: 'After' },
+          });
+        },
+        { interval: 20, timeout: 2000 }
+      );
+    } finally {
+      provider.close();
+    }
+  });
+});
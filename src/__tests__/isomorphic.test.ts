@@ -1,6 +1,6 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { createHmacSha256, verifyHmacSignature } from '../utils/crypto';
-import createDebug from '../utils/debug';
+import createDebug, { type Logger, redact } from '../utils/debug';
 
 describe('Isomorphic Utilities', () => {
   describe('Crypto Utils', () => {
@@ -95,5 +95,108 @@ describe('Isomorphic Utilities', () => {
         debug(undefined);
       }).not.toThrow();
     });
+
+    function createLogger(): Logger {
+      return { debug: vi.fn(), error: vi.fn(), info: vi.fn(), warn: vi.fn() };
+    }
+
+    it('should write messages with the namespace prefix when enabled', () => {
+      const logger = createLogger();
+      const debug = createDebug('test:namespace', { enabled: true, logger });
+
+      debug('test message', 42);
+
+      expect(logger.debug).toHaveBeenCalledWith(
+        expect.stringContaining('test:namespace'),
+        'test message',
+        42
+      );
+    });
+
+    it('should not write anything when disabled', () => {
+      const logger = createLogger();
+      const debug = createDebug('test:namespace', { logger });
+
+      debug('test message');
+      debug.error('test error');
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+
+    it('should only write messages at or above the minimum level', () => {
+      const logger = createLogger();
+      const debug = createDebug('test:namespace', {
+        enabled: true,
+        level: 'warn',
+        logger,
+      });
+
+      debug('debug message');
+      debug.info('info message');
+      debug.warn('warn message');
+      debug.error('error message');
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.info).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.any(String),
+        'warn message'
+      );
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.any(String),
+        'error message'
+      );
+    });
+
+    it('should redact secrets', () => {
+      const logger = createLogger();
+      const debug = createDebug('test:namespace', {
+        enabled: true,
+        logger,
+        secrets: ['sk_live_123'],
+      });
+
+      debug('Using key sk_live_123', {
+        apiKey: 'other-key',
+        headers: { Authorization: 'Bearer abc' },
+        path: '/test',
+      });
+
+      expect(logger.debug).toHaveBeenCalledWith(
+        expect.any(String),
+        'Using key [REDACTED]',
+        {
+          apiKey: '[REDACTED]',
+          headers: { Authorization: '[REDACTED]' },
+          path: '/test',
+        }
+      );
+    });
+
+    it('should redact secrets added later and inside errors', () => {
+      const logger = createLogger();
+      const debug = createDebug('test:namespace', { enabled: true, logger });
+      debug.addSecret('sk_request_456');
+
+      class ApiError extends Error {}
+      debug.warn(
+        new ApiError('Rejected sk_request_456', {
+          cause: new Error('Key sk_request_456 is invalid'),
+        })
+      );
+
+      const [, error] = vi.mocked(logger.warn).mock.calls[0] as [string, Error];
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.message).toBe('Rejected [REDACTED]');
+      expect(error.stack).not.toContain('sk_request_456');
+      expect((error.cause as Error).message).toBe('Key [REDACTED] is invalid');
+    });
+
+    it('should redact bearer tokens in strings', () => {
+      expect(redact('Authorization: Bearer abc.def', [])).toBe(
+        'Authorization: Bearer [REDACTED]'
+      );
+    });
   });
 });
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { MetadataCacheEntry } from '../utils/cache';
+import { LruCache } from '../utils/cache/lru';
+
+function createEntry(title: string): MetadataCacheEntry {
+  return {
+    storedAt: 0,
+    value: {
+      metadata: { title },
+    },
+  };
+}
+
+describe('LruCache', () => {
+  it('should store and retrieve entries', () => {
+    const cache = new LruCache();
+    const entry = createEntry('Test Title');
+
+    cache.set('/test', entry);
+
+    expect(cache.get('/test')).toBe(entry);
+    expect(cache.get('/missing')).toBeUndefined();
+    expect(cache.size).toBe(1);
+  });
+
+  it('should evict the least recently used entry when maxEntries is exceeded', () => {
+    const cache = new LruCache({ maxEntries: 2 });
+
+    cache.set('/a', createEntry('A'));
+    cache.set('/b', createEntry('B'));
+    // Reading /a makes /b the least recently used entry
+    cache.get('/a');
+    cache.set('/c', createEntry('C'));
+
+    expect(cache.keys()).toEqual(['/a', '/c']);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('should evict entries until maxBytes is satisfied', () => {
+    const entrySize = JSON.stringify(createEntry('A').value).length;
+    const cache = new LruCache({ maxBytes: entrySize * 2 });
+
+    cache.set('/a', createEntry('A'));
+    cache.set('/b', createEntry('B'));
+    expect(cache.getStats()).toEqual({
+      bytes: entrySize * 2,
+      entries: 2,
+      evictions: 0,
+    });
+
+    cache.set('/c', createEntry('C'));
+    expect(cache.keys()).toEqual(['/b', '/c']);
+    expect(cache.getStats()).toEqual({
+      bytes: entrySize * 2,
+      entries: 2,
+      evictions: 1,
+    });
+  });
+
+  it('should not store entries larger than maxBytes', () => {
+    const cache = new LruCache({ maxBytes: 10 });
+
+    cache.set('/a', createEntry('A title that does not fit'));
+
+    expect(cache.get('/a')).toBeUndefined();
+    expect(cache.getStats()).toEqual({
+      bytes: 0,
+      entries: 0,
+      evictions: 1,
+    });
+  });
+
+  it('should replace entries without counting an eviction', () => {
+    const cache = new LruCache({ maxEntries: 1 });
+
+    cache.set('/a', createEntry('A'));
+    cache.set('/a', createEntry('Updated A'));
+
+    expect(cache.get('/a')?.value.metadata.title).toBe('Updated A');
+    expect(cache.getStats().evictions).toBe(0);
+  });
+
+  it('should track bytes when deleting and clearing entries', () => {
+    const cache = new LruCache();
+
+    cache.set('/a', createEntry('A'));
+    cache.set('/b', createEntry('B'));
+
+    expect(cache.delete('/a')).toBe(true);
+    expect(cache.delete('/a')).toBe(false);
+    expect(cache.getStats().entries).toBe(1);
+
+    cache.clear();
+    expect(cache.getStats()).toEqual({
+      bytes: 0,
+      entries: 0,
+      evictions: 0,
+    });
+  });
+});
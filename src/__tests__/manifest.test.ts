@@ -0,0 +1,50 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { MetadataManifest } from '../utils/manifest';
+import {
+  readMetadataManifest,
+  writeMetadataManifest,
+} from '../utils/manifest/fs';
+
+const manifest: MetadataManifest = {
+  dsn: 'test-dsn',
+  entries: {
+    '/test': {
+      metadata: { title: 'Test Title' },
+      metadataRevisionId: 'rev-123',
+    },
+  },
+  generatedAt: '2024-01-01T00:00:00.000Z',
+  version: 1,
+};
+
+describe('metadata manifest files', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'generate-metadata-manifest-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { force: true, recursive: true });
+  });
+
+  it('should round-trip a manifest through disk', async () => {
+    const file = join(directory, 'nested', 'manifest.json');
+
+    await writeMetadataManifest(file, manifest);
+
+    expect(await readMetadataManifest(file)).toEqual(manifest);
+  });
+
+  it('should reject files that are not a manifest', async () => {
+    const file = join(directory, 'manifest.json');
+    await writeFile(file, JSON.stringify({ entries: {} }), 'utf8');
+
+    await expect(readMetadataManifest(file)).rejects.toThrow(
+      'is not a valid metadata manifest'
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, expect, it, vi } from 'vitest';
+import { formatPrometheusMetrics, MetricsRecorder } from '../utils/metrics';
+
+const event = { dsn: 'test-dsn', revisionId: undefined };
+
+describe('MetricsRecorder', () => {
+  it('should start with empty stats', () => {
+    const stats = new MetricsRecorder().getStats(undefined);
+
+    expect(stats.cache.hitRatio).toBe(0);
+    expect(stats.api.errorRate).toBe(0);
+    expect(stats.api.latency).toEqual({
+      count: 0,
+      p50: 0,
+      p95: 0,
+      p99: 0,
+      sum: 0,
+    });
+  });
+
+  it('should count fresh and stale cache hits and misses', () => {
+    const recorder = new MetricsRecorder();
+
+    recorder.record('onCacheHit', {
+      ...event,
+      path: '/a',
+      state: 'fresh',
+    });
+    recorder.record('onCacheHit', {
+      ...event,
+      path: '/a',
+      state: 'stale',
+    });
+    recorder.record('onCacheMiss', {
+      ...event,
+      path: '/b',
+      reason: 'missing',
+    });
+    recorder.record('onCacheMiss', {
+      ...event,
+      path: '/c',
+      reason: 'expired',
+    });
+
+    expect(
+      recorder.getStats({ bytes: 10, entries: 2, evictions: 0 }).cache
+    ).toEqual({
+      bytes: 10,
+      entries: 2,
+      evictions: 0,
+      hitRatio: 0.5,
+      hits: 2,
+      misses: 2,
+      snapshotHits: 0,
+      staleHits: 1,
+    });
+  });
+
+  it('should count snapshot hits apart from cache hits', () => {
+    const sink = { counter: vi.fn(), gauge: vi.fn(), histogram: vi.fn() };
+    const recorder = new MetricsRecorder(sink);
+
+    recorder.record('onCacheMiss', {
+      ...event,
+      path: '/a',
+      reason: 'missing',
+    });
+    recorder.record('onCacheHit', {
+      ...event,
+      path: '/a',
+      state: 'snapshot',
+    });
+
+    expect(recorder.getStats(undefined).cache).toMatchObject({
+      hitRatio: 0,
+      hits: 0,
+      misses: 1,
+      snapshotHits: 1,
+    });
+    expect(sink.counter).toHaveBeenCalledWith(
+      'generate_metadata_snapshot_hits_total',
+      1
+    );
+  });
+
+  it('should compute latency percentiles and the error rate', () => {
+    const recorder = new MetricsRecorder();
+
+    for (let duration = 1; duration <= 100; duration++) {
+      recorder.record('onFetchSuccess', {
+        ...event,
+        duration,
+        path: '/a',
+      });
+    }
+    recorder.record('onFetchError', {
+      ...event,
+      duration: 1000,
+      error: new Error('API down'),
+      path: '/a',
+    });
+
+    const { api } = recorder.getStats(undefined);
+    expect(api.requests).toBe(101);
+    expect(api.errors).toBe(1);
+    expect(api.errorRate).toBeCloseTo(1 / 101);
+    expect(api.latency.p50).toBe(51);
+    expect(api.latency.p95).toBe(96);
+    expect(api.latency.p99).toBe(100);
+    expect(api.latency.sum).toBe(6050);
+  });
+
+  it('should forward events to the sink', () => {
+    const sink = { counter: vi.fn(), gauge: vi.fn(), histogram: vi.fn() };
+    const recorder = new MetricsRecorder(sink);
+
+    recorder.record('onFetchSuccess', {
+      ...event,
+      duration: 12,
+      path: '/a',
+    });
+    recorder.record('onFallbackUsed', {
+      ...event,
+      error: undefined,
+      path: '/a',
+    });
+    recorder.recordCacheSize({ bytes: 10, entries: 3, evictions: 0 });
+
+    expect(sink.counter).toHaveBeenCalledWith(
+      'generate_metadata_api_requests_total',
+      1,
+      { outcome: 'success' }
+    );
+    expect(sink.histogram).toHaveBeenCalledWith(
+      'generate_metadata_api_request_duration_ms',
+      12,
+      { outcome: 'success' }
+    );
+    expect(sink.counter).toHaveBeenCalledWith(
+      'generate_metadata_fallbacks_total',
+      1
+    );
+    expect(sink.gauge).toHaveBeenCalledWith(
+      'generate_metadata_cache_entries',
+      3
+    );
+  });
+});
+
+describe('formatPrometheusMetrics', () => {
+  it('should serialize stats in the text exposition format', () => {
+    const recorder = new MetricsRecorder();
+    recorder.record('onCacheHit', {
+      ...event,
+      path: '/a',
+      state: 'fresh',
+    });
+    recorder.record('onCacheMiss', {
+      ...event,
+      path: '/b',
+      reason: 'missing',
+    });
+    recorder.record('onFetchSuccess', {
+      ...event,
+      duration: 20,
+      path: '/b',
+    });
+
+    const text = formatPrometheusMetrics(
+      recorder.getStats({ bytes: 10, entries: 1, evictions: 0 }),
+      { labels: { site: 'marketing' } }
+    );
+
+    expect(text).toContain(
+      '# TYPE generate_metadata_cache_hits_total counter\n'
+    );
+    expect(text).toContain(
+      'generate_metadata_cache_hits_total{site="marketing",state="fresh"} 1\n'
+    );
+    expect(text).toContain(
+      'generate_metadata_cache_entries{site="marketing"} 1\n'
+    );
+    expect(text).toContain(
+      'generate_metadata_api_request_duration_ms{site="marketing",quantile="0.95"} 20\n'
+    );
+    expect(text).toContain(
+      'generate_metadata_api_request_duration_ms_count{site="marketing"} 1\n'
+    );
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('should escape label values and omit the cache gauge without stats', () => {
+    const text = formatPrometheusMetrics(
+      new MetricsRecorder().getStats(undefined),
+      { labels: { site: 'say "hi"' } }
+    );
+
+    expect(text).toContain('{site="say \\"hi\\""}');
+    expect(text).not.toContain('generate_metadata_cache_entries');
+  });
+});
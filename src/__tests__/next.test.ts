@@ -1,21 +1,55 @@
 import { revalidatePath } from 'next/cache';
-import { beforeEach, describe, expect, it, vi } from 'vitest';
-import type { MetadataApiResponse } from '../index';
+import { headers } from 'next/headers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  apiProvider,
+  GenerateMetadataAuthError,
+  GenerateMetadataError,
+  MemoryCacheStore,
+  type MetadataApiResponse,
+  NetworkError,
+  NotFoundError,
+  type Site,
+  staticProvider,
+  TimeoutError,
+} from '../index';
 import { GenerateMetadataClient } from '../next';
+import { FetchApiClient } from '../utils/api/fetch';
+import manifestJson from './fixtures/metadata-manifest.json' with {
+  type: 'json',
+};
+
+const partitionedKeyPattern = /^test-dsn:[0-9a-f]{16}\/test$/;
 
 // Create a mock API client
 const mockApiClient = {
   GET: vi.fn(),
+  getSite: vi.fn(),
+  registerBuild: vi.fn(),
 };
 
 // Mock the FetchApiClient
-vi.mock('../utils/api/fetch', () => ({
-  FetchApiClient: vi.fn().mockImplementation(() => ({
-    metadataGetLatest: vi.fn((args) =>
-      mockApiClient.GET('/v1/{dsn}/metadata/get-latest', args)
-    ),
-  })),
-}));
+vi.mock('../utils/api/fetch', async () => {
+  const { splitMetadataGetMany } =
+    await vi.importActual<typeof import('../utils/api/batch')>(
+      '../utils/api/batch'
+    );
+  return {
+    FetchApiClient: vi.fn().mockImplementation(() => {
+      const metadataGetLatest = vi.fn((args) =>
+        mockApiClient.GET('/v1/{dsn}/metadata/get-latest', args)
+      );
+      return {
+        metadataGetLatest,
+        metadataGetMany: vi.fn((args) =>
+          splitMetadataGetMany({ metadataGetLatest }, args)
+        ),
+        sitesGetSite: vi.fn((args) => mockApiClient.getSite(args)),
+        sitesRegisterBuild: vi.fn((args) => mockApiClient.registerBuild(args)),
+      };
+    }),
+  };
+});
 
 // Mock the base URL export
 vi.mock('../utils/api', () => ({
@@ -27,6 +61,11 @@ vi.mock('next/cache', () => ({
   revalidatePath: vi.fn(),
 }));
 
+// Mock Next.js headers module
+vi.mock('next/headers', () => ({
+  headers: vi.fn(),
+}));
+
 // Mock hono/vercel
 vi.mock('hono/vercel', () => ({
   handle: vi.fn((app) => {
@@ -38,6 +77,8 @@ vi.mock('hono/vercel', () => ({
   }),
 }));
 
+const secretKeyRegex = /sk_(request|site)_/;
+
 const mockApiResponse: MetadataApiResponse = {
   metadata: {
     appleTouchIcon: [
@@ -96,11 +137,24 @@ const mockApiResponse: MetadataApiResponse = {
   },
 };
 
+const mockSite: Site = {
+  autoAcceptAiSuggestions: false,
+  autoScrapeEnabled: false,
+  hostname: 'example.com',
+  id: 'site-123',
+  name: 'Example',
+  titleTemplate: null,
+};
+
 describe('GenerateMetadataClient (Next.js)', () => {
   let client: GenerateMetadataClient;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(mockApiClient.getSite).mockResolvedValue({
+      data: { site: mockSite },
+      error: undefined,
+    });
     client = new GenerateMetadataClient({
       apiKey: 'test-api-key',
       dsn: 'test-dsn',
@@ -370,6 +424,285 @@ describe('GenerateMetadataClient (Next.js)', () => {
       expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
     });
 
+    it('should share one API request between concurrent calls for the same path', async () => {
+      let resolveRequest: (value: unknown) => void = () => {};
+      vi.mocked(mockApiClient.GET).mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveRequest = resolve;
+        })
+      );
+
+      const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+      const pending = Promise.all([
+        metadataFn({}, {} as any),
+        metadataFn({}, {} as any),
+        client.getMetadata(() => ({ path: '/test/' }))({}, {} as any),
+      ]);
+
+      // Wait until every caller has checked the cache
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      resolveRequest({ data: mockApiResponse, error: undefined });
+      const results = await pending;
+
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+      for (const result of results) {
+        expect(result.title).toBe('Test Page Title');
+      }
+    });
+
+    it('should not share in-flight requests between different API keys', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      await Promise.all([
+        client.getMetadata(() => ({ path: '/test' }))({}, {} as any),
+        client.getMetadata(() => ({ apiKey: 'other-api-key', path: '/test' }))(
+          {},
+          {} as any
+        ),
+      ]);
+
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use fallback and cancel the API request once the signal is aborted', async () => {
+      vi.mocked(mockApiClient.GET).mockReturnValueOnce(new Promise(() => {}));
+      const controller = new AbortController();
+
+      const pending = client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+        signal: controller.signal,
+      }))({}, {} as any);
+      controller.abort();
+
+      expect(await pending).toEqual({ title: 'Fallback Title' });
+      const [, args] = vi.mocked(mockApiClient.GET).mock.calls[0] as any[];
+      expect(args.signal.aborted).toBe(true);
+    });
+
+    it('should keep a shared API request running while another caller waits', async () => {
+      let resolveRequest: (value: unknown) => void = () => {};
+      vi.mocked(mockApiClient.GET).mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveRequest = resolve;
+        })
+      );
+      const onCacheMiss = vi.fn();
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        dsn: 'test-dsn',
+        on: { onCacheMiss },
+      });
+      const controller = new AbortController();
+
+      const aborted = client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+        signal: controller.signal,
+      }))({}, {} as any);
+      const waiting = client.getMetadata(() => ({ path: '/test' }))(
+        {},
+        {} as any
+      );
+      // Both callers request the metadata right after reporting the miss
+      await vi.waitFor(() => {
+        expect(onCacheMiss).toHaveBeenCalledTimes(2);
+      });
+      controller.abort();
+
+      expect(await aborted).toEqual({ title: 'Fallback Title' });
+      const [, args] = vi.mocked(mockApiClient.GET).mock.calls[0] as any[];
+      expect(args.signal.aborted).toBe(false);
+
+      resolveRequest({ data: mockApiResponse, error: undefined });
+      expect((await waiting).title).toBe('Test Page Title');
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not count a cancelled request as an API error', async () => {
+      const onFetchError = vi.fn();
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        circuitBreaker: { failureThreshold: 1 },
+        dsn: 'test-dsn',
+        on: { onFetchError },
+      });
+      vi.mocked(mockApiClient.GET).mockImplementationOnce(
+        (_url, args) =>
+          new Promise((_resolve, reject) => {
+            args.signal.addEventListener('abort', () => {
+              reject(args.signal.reason);
+            });
+          })
+      );
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      const controller = new AbortController();
+
+      const pending = client.getMetadata(() => ({
+        path: '/test',
+        signal: controller.signal,
+      }))({}, {} as any);
+      controller.abort();
+      await pending;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const result = await client.getMetadata(() => ({ path: '/test' }))(
+        {},
+        {} as any
+      );
+      expect(result.title).toBe('Test Page Title');
+      expect(onFetchError).not.toHaveBeenCalled();
+    });
+
+    it('should use fallback when the latency budget is exceeded and cache the late result', async () => {
+      let resolveRequest: (value: unknown) => void = () => {};
+      vi.mocked(mockApiClient.GET).mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveRequest = resolve;
+        })
+      );
+
+      const result = await client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        latencyBudgetMs: 10,
+        override: { description: 'Override Description' },
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result).toEqual({
+        description: 'Override Description',
+        title: 'Fallback Title',
+      });
+
+      resolveRequest({ data: mockApiResponse, error: undefined });
+      await vi.waitFor(async () => {
+        const cachedResult = await client.getMetadata(() => ({
+          latencyBudgetMs: 10,
+          path: '/test',
+        }))({}, {} as any);
+        expect(cachedResult.title).toBe('Test Page Title');
+      });
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return generated metadata when the API answers within the latency budget', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      const result = await client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        latencyBudgetMs: 1000,
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Test Page Title');
+    });
+
+    it('should retry after a shared in-flight request fails', async () => {
+      vi.mocked(mockApiClient.GET)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({
+          data: mockApiResponse,
+          error: undefined,
+        });
+
+      const metadataFn = client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }));
+      const results = await Promise.all([
+        metadataFn({}, {} as any),
+        metadataFn({}, {} as any),
+      ]);
+
+      expect(results).toEqual([
+        { title: 'Fallback Title' },
+        { title: 'Fallback Title' },
+      ]);
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+
+      const result = await metadataFn({}, {} as any);
+      expect(result.title).toBe('Test Page Title');
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict least recently used paths when maxEntries is exceeded', async () => {
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        cache: { maxEntries: 1 },
+        dsn: 'test-dsn',
+      });
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      await client.getMetadata(() => ({ path: '/test1' }))({}, {} as any);
+      await client.getMetadata(() => ({ path: '/test2' }))({}, {} as any);
+      await client.getMetadata(() => ({ path: '/test1' }))({}, {} as any);
+
+      // /test1 was evicted when /test2 was cached, so it is fetched again
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(3);
+      expect(client.getCacheStats()).toMatchObject({
+        entries: 1,
+        evictions: 2,
+      });
+    });
+
+    it('should share a custom cache store between clients', async () => {
+      const store = new MemoryCacheStore();
+      const client1 = new GenerateMetadataClient({
+        cache: { store },
+        dsn: 'test-dsn',
+      });
+      const client2 = new GenerateMetadataClient({
+        cache: { store },
+        dsn: 'test-dsn',
+      });
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      await client1.getMetadata(() => ({ path: '/test' }))({}, {} as any);
+      await client2.getMetadata(() => ({ path: '/test' }))({}, {} as any);
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+
+      // Clearing the cache on one client reaches the other
+      await (client1 as any).clearCache('/test');
+      await client2.getMetadata(() => ({ path: '/test' }))({}, {} as any);
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch from the API when the cache store fails', async () => {
+      const store = new MemoryCacheStore();
+      vi.spyOn(store, 'get').mockRejectedValue(new Error('Store down'));
+      vi.spyOn(store, 'set').mockRejectedValue(new Error('Store down'));
+      client = new GenerateMetadataClient({
+        cache: { store },
+        dsn: 'test-dsn',
+      });
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      const result = await client.getMetadata(() => ({ path: '/test' }))(
+        {},
+        {} as any
+      );
+
+      expect(result.title).toBe('Test Page Title');
+    });
+
     it('should handle async function-based options', async () => {
       vi.mocked(mockApiClient.GET).mockResolvedValue({
         data: mockApiResponse,
@@ -927,117 +1260,2233 @@ describe('GenerateMetadataClient (Next.js)', () => {
         title: 'Test Title',
       });
     });
-  });
 
-  describe('getRootMetadata', () => {
-    it('should return empty metadata when no factory provided', async () => {
-      const rootMetadataFn = client.getRootMetadata();
-      const result = await rootMetadataFn({}, {} as any);
+    describe('cache expiry', () => {
+      const updatedApiResponse: MetadataApiResponse = {
+        metadata: {
+          title: 'Updated Page Title',
+        },
+      };
 
-      expect(result).toEqual({});
-    });
+      beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+        client = new GenerateMetadataClient({
+          apiKey: 'test-api-key',
+          cache: {
+            staleWhileRevalidate: 60_000,
+            ttl: 10_000,
+          },
+          dsn: 'test-dsn',
+        });
+      });
 
-    it('should return empty metadata when factory returns empty object', async () => {
-      const rootMetadataFn = client.getRootMetadata(() => ({}));
-      const result = await rootMetadataFn({}, {} as any);
+      afterEach(() => {
+        vi.useRealTimers();
+      });
 
-      expect(result).toEqual({});
-    });
+      it('should serve cached metadata while it is fresh', async () => {
+        vi.mocked(mockApiClient.GET).mockResolvedValue({
+          data: mockApiResponse,
+          error: undefined,
+        });
 
-    it('should return fallback metadata when provided', async () => {
-      const fallbackMetadata = {
-        description: 'Root Fallback Description',
-        title: 'Root Fallback Title',
-      };
+        const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+        await metadataFn({}, {} as any);
 
-      const rootMetadataFn = client.getRootMetadata(() => ({
-        fallback: fallbackMetadata,
-      }));
-      const result = await rootMetadataFn({}, {} as any);
+        vi.advanceTimersByTime(5000);
+        const result = await metadataFn({}, {} as any);
 
-      expect(result).toEqual(fallbackMetadata);
-    });
+        expect(result.title).toBe('Test Page Title');
+        expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+      });
 
-    it('should merge override metadata properly', async () => {
-      const fallbackMetadata = {
-        description: 'Root Fallback Description',
-        title: 'Root Fallback Title',
-      };
+      it('should store when each entry stops being served', async () => {
+        const store = new MemoryCacheStore();
+        client = new GenerateMetadataClient({
+          apiKey: 'test-api-key',
+          cache: { staleWhileRevalidate: 60_000, store, ttl: 10_000 },
+          dsn: 'test-dsn',
+        });
+        vi.mocked(mockApiClient.GET).mockResolvedValue({
+          data: mockApiResponse,
+          error: undefined,
+        });
+
+        await client.getMetadata(() => ({ path: '/test' }))({}, {} as any);
+
+        const [key] = await store.keys();
+        expect(await store.get(key as string)).toEqual({
+          expiresAt: Date.now() + 70_000,
+          storedAt: Date.now(),
+          value: mockApiResponse,
+        });
+      });
 
-      const overrideMetadata = {
-        keywords: ['root', 'override'],
-        title: 'Root Override Title',
-      };
+      it('should serve stale metadata and refresh it in the background', async () => {
+        vi.mocked(mockApiClient.GET).mockResolvedValueOnce({
+          data: mockApiResponse,
+          error: undefined,
+        });
+
+        const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+        await metadataFn({}, {} as any);
+
+        vi.advanceTimersByTime(15_000);
+
+        let resolveRefresh: (value: unknown) => void = () => {};
+        vi.mocked(mockApiClient.GET).mockReturnValueOnce(
+          new Promise((resolve) => {
+            resolveRefresh = resolve;
+          })
+        );
+
+        // Stale entry is returned without waiting for the refresh
+        const staleResult = await metadataFn({}, {} as any);
+        expect(staleResult.title).toBe('Test Page Title');
+        expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+
+        // Concurrent stale reads do not start another refresh
+        await metadataFn({}, {} as any);
+        expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+
+        resolveRefresh({ data: updatedApiResponse, error: undefined });
+        await vi.waitFor(async () => {
+          const result = await metadataFn({}, {} as any);
+          expect(result.title).toBe('Updated Page Title');
+        });
+        expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+      });
 
-      const rootMetadataFn = client.getRootMetadata(() => ({
-        fallback: fallbackMetadata,
-        override: overrideMetadata,
-      }));
-      const result = await rootMetadataFn({}, {} as any);
+      it('should keep serving stale metadata when the background refresh fails', async () => {
+        vi.mocked(mockApiClient.GET)
+          .mockResolvedValueOnce({
+            data: mockApiResponse,
+            error: undefined,
+          })
+          .mockRejectedValueOnce(new Error('Network error'));
 
-      expect(result).toEqual({
-        description: 'Root Fallback Description', // Fallback preserved
-        keywords: ['root', 'override'], // Override added
-        title: 'Root Override Title', // Override wins
+        const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+        await metadataFn({}, {} as any);
+
+        vi.advanceTimersByTime(15_000);
+
+        const result = await metadataFn({}, {} as any);
+        expect(result.title).toBe('Test Page Title');
+        expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
       });
-    });
 
-    it('should handle async factory functions', async () => {
-      const asyncFactory = async () => {
-        await new Promise((resolve) => setTimeout(resolve, 1));
-        return {
-          fallback: {
-            description: 'Async Root Description',
-            title: 'Async Root Title',
-          },
-        };
-      };
+      it('should fetch again once the maximum age has passed', async () => {
+        vi.mocked(mockApiClient.GET)
+          .mockResolvedValueOnce({
+            data: mockApiResponse,
+            error: undefined,
+          })
+          .mockResolvedValueOnce({
+            data: updatedApiResponse,
+            error: undefined,
+          });
+
+        const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+        await metadataFn({}, {} as any);
+
+        vi.advanceTimersByTime(70_000);
+        const result = await metadataFn({}, {} as any);
+
+        expect(result.title).toBe('Updated Page Title');
+        expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+      });
 
-      const rootMetadataFn = client.getRootMetadata(asyncFactory);
-      const result = await rootMetadataFn({}, {} as any);
+      it('should fall back when the maximum age has passed and the API fails', async () => {
+        vi.mocked(mockApiClient.GET)
+          .mockResolvedValueOnce({
+            data: mockApiResponse,
+            error: undefined,
+          })
+          .mockRejectedValueOnce(new Error('Network error'));
 
-      expect(result).toEqual({
-        description: 'Async Root Description',
-        title: 'Async Root Title',
+        const metadataFn = client.getMetadata(() => ({
+          fallback: { title: 'Fallback Title' },
+          path: '/test',
+        }));
+        await metadataFn({}, {} as any);
+
+        vi.advanceTimersByTime(70_000);
+        const result = await metadataFn({}, {} as any);
+
+        expect(result).toEqual({ title: 'Fallback Title' });
       });
     });
+  });
 
-    it('should pass props and parent to factory function', async () => {
-      const mockFactory = vi.fn().mockReturnValue({
-        fallback: { title: 'Test Title' },
+  describe('circuit breaker', () => {
+    const onStateChange = vi.fn();
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        cache: { ttl: 10_000 },
+        circuitBreaker: {
+          cooldownMs: 30_000,
+          failureThreshold: 2,
+          onStateChange,
+        },
+        dsn: 'test-dsn',
       });
-      const mockProps = { test: 'prop' };
-      const mockParent = { test: 'parent' } as any;
+    });
 
-      const rootMetadataFn = client.getRootMetadata(mockFactory);
-      await rootMetadataFn(mockProps, mockParent);
+    afterEach(() => {
+      vi.useRealTimers();
+    });
 
-      expect(mockFactory).toHaveBeenCalledWith(mockProps, mockParent);
+    it('should skip the API while the circuit is open', async () => {
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+
+      const metadataFn = client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }));
+      await metadataFn({}, {} as any);
+      await metadataFn({}, {} as any);
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+      expect(onStateChange).toHaveBeenLastCalledWith({
+        failures: 2,
+        previousState: 'closed',
+        state: 'open',
+      });
+
+      const result = await metadataFn({}, {} as any);
+      expect(result).toEqual({ title: 'Fallback Title' });
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
     });
-  });
 
-  describe('triggerRevalidation', () => {
-    it('should clear cache and call revalidatePath for specific path', async () => {
-      // First, populate the cache
-      vi.mocked(mockApiClient.GET).mockResolvedValue({
+    it('should serve last known good metadata while the circuit is open', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValueOnce({
         data: mockApiResponse,
         error: undefined,
       });
+      await client.getMetadata(() => ({ path: '/test' }))({}, {} as any);
 
-      const metadataFn = client.getMetadata(() => ({ path: '/test' }));
-      await metadataFn({}, {} as any);
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+      await client.getMetadata(() => ({ path: '/other1' }))({}, {} as any);
+      await client.getMetadata(() => ({ path: '/other2' }))({}, {} as any);
 
-      // Clear mocks to verify cache behavior
-      vi.clearAllMocks();
+      // The cached entry has expired, but it is better than the fallback
+      vi.advanceTimersByTime(20_000);
+      const result = await client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }))({}, {} as any);
 
-      // Call clearCache and triggerRevalidation (which is what the webhook handler does)
-      (client as any).clearCache('/test');
-      await (client as any).triggerRevalidation('/test');
+      expect(result.title).toBe('Test Page Title');
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(3);
+    });
 
-      // Verify revalidatePath was called
-      expect(revalidatePath).toHaveBeenCalledWith('/test');
+    it.each([401, 404])(
+      'should not open the circuit when the API answers %i',
+      async (status) => {
+        vi.mocked(mockApiClient.GET).mockResolvedValue({
+          data: undefined,
+          error: { message: 'Rejected' },
+          response: new Response(null, { status }),
+        });
+
+        const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+        await metadataFn({}, {} as any);
+        await metadataFn({}, {} as any);
+        await metadataFn({}, {} as any);
+
+        expect(mockApiClient.GET).toHaveBeenCalledTimes(3);
+        expect(onStateChange).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should open the circuit on 5xx responses', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: undefined,
+        error: { message: 'Unavailable' },
+        response: new Response(null, { status: 503 }),
+      });
 
-      // Verify cache was cleared by fetching again
+      const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+      await metadataFn({}, {} as any);
+      await metadataFn({}, {} as any);
+      await metadataFn({}, {} as any);
+
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+      expect(onStateChange).toHaveBeenLastCalledWith({
+        failures: 2,
+        previousState: 'closed',
+        state: 'open',
+      });
+    });
+
+    it('should keep serving when onStateChange throws', async () => {
+      onStateChange.mockImplementationOnce(() => {
+        throw new Error('Callback failed');
+      });
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+
+      const metadataFn = client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }));
+      await metadataFn({}, {} as any);
+      const result = await metadataFn({}, {} as any);
+
+      expect(result).toEqual({ title: 'Fallback Title' });
+      expect(onStateChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should close the circuit after a successful trial request', async () => {
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+      const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+      await metadataFn({}, {} as any);
+      await metadataFn({}, {} as any);
+
+      vi.advanceTimersByTime(30_000);
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      const result = await metadataFn({}, {} as any);
+      expect(result.title).toBe('Test Page Title');
+      expect(onStateChange.mock.calls.map(([change]) => change.state)).toEqual([
+        'open',
+        'half-open',
+        'closed',
+      ]);
+    });
+  });
+
+  describe('cache partitions', () => {
+    let store: MemoryCacheStore;
+
+    const renderWith = (apiKey?: string) =>
+      client.getMetadata(() => ({ apiKey, path: '/test' }))({}, {} as any);
+
+    beforeEach(() => {
+      store = new MemoryCacheStore();
+      client = new GenerateMetadataClient({
+        apiKey: 'default-key',
+        cache: { store },
+        dsn: 'test-dsn',
+      });
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+    });
+
+    it('should not share entries between API keys', async () => {
+      await renderWith('key-a');
+      await renderWith('key-b');
+      await renderWith('key-a');
+      await renderWith();
+
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(3);
+    });
+
+    it('should key entries by DSN and a hash of the API key', async () => {
+      await renderWith('secret-key');
+
+      const keys = await store.keys();
+      expect(keys).toEqual([expect.stringMatching(partitionedKeyPattern)]);
+      expect(keys[0]).not.toContain('secret-key');
+    });
+
+    it('should clear one partition or all of them', async () => {
+      await renderWith('key-a');
+      await renderWith('key-b');
+
+      await (client as any).clearCache('/test', {
+        apiKey: 'key-a',
+        dsn: 'test-dsn',
+      });
+      expect(await store.keys()).toHaveLength(1);
+
+      await renderWith('key-a');
+      await (client as any).clearCache('/test');
+      expect(await store.keys()).toEqual([]);
+    });
+
+    it('should clear a path without listing the store', async () => {
+      await renderWith('key-a');
+      await renderWith();
+      const keys = vi.spyOn(store, 'keys');
+      const remove = vi.spyOn(store, 'delete');
+
+      await (client as any).clearCache('/test/');
+
+      expect(keys).not.toHaveBeenCalled();
+      expect(remove).toHaveBeenCalledTimes(2);
+      expect(await store.keys()).toEqual([]);
+    });
+
+    it('should clear every path of a DSN', async () => {
+      await renderWith('key-a');
+      await store.set('other-dsn:anonymous/test', {
+        storedAt: Date.now(),
+        value: mockApiResponse,
+      });
+
+      await (client as any).clearCache(null, { dsn: 'test-dsn' });
+
+      expect(await store.keys()).toEqual(['other-dsn:anonymous/test']);
+    });
+  });
+
+  describe('cache management', () => {
+    let store: MemoryCacheStore;
+
+    const render = (path: string) =>
+      client.getMetadata(() => ({ path }))({}, {} as any);
+
+    const cachedPaths = async () =>
+      (await client.entries()).map((entry) => entry.path).sort();
+
+    beforeEach(async () => {
+      store = new MemoryCacheStore();
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        cache: { store },
+        dsn: 'test-dsn',
+        query: 'keep',
+      });
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      for (const path of [
+        '/blog',
+        '/blog/hello',
+        '/blog?page=2',
+        '/blogroll',
+        '/docs/a/b',
+      ]) {
+        await render(path);
+      }
+    });
+
+    it('should invalidate one path so it is fetched again', async () => {
+      expect(await client.invalidate('/blog/hello/')).toBe(1);
+      expect(await cachedPaths()).toEqual([
+        '/blog',
+        '/blog?page=2',
+        '/blogroll',
+        '/docs/a/b',
+      ]);
+
+      await render('/blog/hello');
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(6);
+    });
+
+    it('should invalidate every path matching a pattern', async () => {
+      expect(await client.invalidate('/docs/**')).toBe(1);
+      expect(await client.invalidate('/blog/[slug]')).toBe(1);
+      expect(await cachedPaths()).toEqual([
+        '/blog',
+        '/blog?page=2',
+        '/blogroll',
+      ]);
+    });
+
+    it('should invalidate a path and the paths below it', async () => {
+      expect(await client.invalidatePrefix('/blog/')).toBe(3);
+      expect(await cachedPaths()).toEqual(['/blogroll', '/docs/a/b']);
+    });
+
+    it('should only invalidate entries in the given scope', async () => {
+      await store.set('other-dsn:anonymous/blog', {
+        storedAt: Date.now(),
+        value: mockApiResponse,
+      });
+
+      expect(await client.invalidatePrefix('/', { dsn: 'other-dsn' })).toBe(1);
+      expect(await store.keys()).toHaveLength(5);
+    });
+
+    it('should invalidate everything', async () => {
+      await client.invalidateAll();
+
+      expect(await client.entries()).toEqual([]);
+    });
+
+    it('should peek at a cached path without fetching it', async () => {
+      const hooks = { onCacheHit: vi.fn() };
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        cache: { store },
+        dsn: 'test-dsn',
+        on: hooks,
+      });
+
+      expect(await client.peek('/blog/')).toEqual({
+        dsn: 'test-dsn',
+        path: '/blog',
+        state: 'fresh',
+        storedAt: expect.any(Number),
+        value: mockApiResponse,
+      });
+      expect(await client.peek('/missing')).toBeUndefined();
+      expect(
+        await client.peek('/blog', { apiKey: 'other-key' })
+      ).toBeUndefined();
+      expect(hooks.onCacheHit).not.toHaveBeenCalled();
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('snapshot', () => {
+    let snapshotStore: MemoryCacheStore;
+    const snapshotKey = 'test-dsn:anonymous/test';
+
+    beforeEach(() => {
+      snapshotStore = new MemoryCacheStore();
+      client = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        snapshot: { maxAge: 60_000, store: snapshotStore },
+      });
+    });
+
+    it('should write successful responses to the snapshot store', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      await client.getMetadata(() => ({ path: '/test/' }))({}, {} as any);
+
+      await vi.waitFor(async () => {
+        expect(await snapshotStore.get(snapshotKey)).toEqual({
+          storedAt: expect.any(Number),
+          value: mockApiResponse,
+        });
+      });
+    });
+
+    it('should serve the snapshot when the API fails on a fresh instance', async () => {
+      await snapshotStore.set(snapshotKey, {
+        storedAt: Date.now() - 30_000,
+        value: mockApiResponse,
+      });
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+
+      const result = await client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Test Page Title');
+    });
+
+    it('should report snapshot hits in hooks and stats', async () => {
+      const onCacheHit = vi.fn();
+      client = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        on: { onCacheHit },
+        snapshot: { store: snapshotStore },
+      });
+      await snapshotStore.set(snapshotKey, {
+        storedAt: Date.now() - 30_000,
+        value: mockApiResponse,
+      });
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+
+      await client.getMetadata(() => ({ path: '/test' }))({}, {} as any);
+
+      expect(onCacheHit).toHaveBeenCalledWith({
+        dsn: 'test-dsn',
+        path: '/test',
+        revisionId: mockApiResponse.metadataRevisionId,
+        state: 'snapshot',
+      });
+      expect(client.getStats().cache).toMatchObject({
+        hits: 0,
+        misses: 1,
+        snapshotHits: 1,
+      });
+    });
+
+    it('should not serve snapshots written for another API key', async () => {
+      await snapshotStore.set(snapshotKey, {
+        storedAt: Date.now() - 30_000,
+        value: mockApiResponse,
+      });
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+
+      const result = await client.getMetadata(() => ({
+        apiKey: 'other-key',
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result).toEqual({ title: 'Fallback Title' });
+    });
+
+    it.each([401, 404])(
+      'should not serve the snapshot when the API answers %i',
+      async (status) => {
+        await snapshotStore.set(snapshotKey, {
+          storedAt: Date.now() - 30_000,
+          value: mockApiResponse,
+        });
+        vi.mocked(mockApiClient.GET).mockResolvedValue({
+          data: undefined,
+          error: { message: 'Rejected' },
+          response: new Response(null, { status }),
+        });
+
+        const result = await client.getMetadata(() => ({
+          fallback: { title: 'Fallback Title' },
+          path: '/test',
+        }))({}, {} as any);
+
+        expect(result).toEqual({ title: 'Fallback Title' });
+      }
+    );
+
+    it('should not serve snapshots older than maxAge', async () => {
+      await snapshotStore.set(snapshotKey, {
+        storedAt: Date.now() - 120_000,
+        value: mockApiResponse,
+      });
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+
+      const result = await client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result).toEqual({ title: 'Fallback Title' });
+    });
+
+    it('should use fallback when the snapshot store fails', async () => {
+      vi.spyOn(snapshotStore, 'get').mockRejectedValue(new Error('Disk error'));
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+
+      const result = await client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result).toEqual({ title: 'Fallback Title' });
+    });
+  });
+
+  describe('prefetch manifest', () => {
+    it('should fetch every path into a manifest', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      const manifest = await client.prefetch(['/test/', '/about', '/test']);
+
+      expect(manifest).toEqual({
+        dsn: 'test-dsn',
+        entries: {
+          '/about': mockApiResponse,
+          '/test': mockApiResponse,
+        },
+        generatedAt: expect.any(String),
+        site: mockSite,
+        version: 1,
+      });
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw when any path fails to prefetch', async () => {
+      vi.mocked(mockApiClient.GET).mockImplementation((_url, args) =>
+        args.params.query.path === '/broken'
+          ? Promise.reject(new Error('API down'))
+          : Promise.resolve({ data: mockApiResponse, error: undefined })
+      );
+
+      await expect(client.prefetch(['/test', '/broken'])).rejects.toThrow(
+        '/broken: NetworkError: Failed to reach the API: API down'
+      );
+    });
+
+    it('should throw when prefetching without a DSN', async () => {
+      const devClient = new GenerateMetadataClient({ dsn: undefined });
+
+      await expect(devClient.prefetch(['/test'])).rejects.toThrow(
+        'A DSN is required'
+      );
+    });
+
+    it('should serve metadata from the manifest without calling the API', async () => {
+      const manifestClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        manifest: {
+          dsn: 'test-dsn',
+          entries: { '/test': mockApiResponse },
+          generatedAt: new Date().toISOString(),
+          version: 1,
+        },
+      });
+
+      const result = await manifestClient.getMetadata(() => ({
+        path: '/test/',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Test Page Title');
+      expect(mockApiClient.GET).not.toHaveBeenCalled();
+    });
+
+    it('should merge the manifest with the other providers', async () => {
+      const manifestClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        manifest: {
+          dsn: 'test-dsn',
+          entries: { '/blog/hello': mockApiResponse },
+          generatedAt: new Date().toISOString(),
+          version: 1,
+        },
+        provider: [
+          staticProvider({ '/blog/*': { metadata: { title: 'Override' } } }),
+          apiProvider(),
+        ],
+      });
+
+      const result = await manifestClient.getMetadata(() => ({
+        path: '/blog/hello',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Override');
+      expect(result.description).toBe('Test page description');
+      expect(mockApiClient.GET).not.toHaveBeenCalled();
+    });
+
+    it('should accept a manifest imported from JSON', async () => {
+      // JSON imports widen literal fields such as `openGraph.type` to string
+      const manifestClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        manifest: manifestJson,
+      });
+
+      const result = await manifestClient.getMetadata(() => ({
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Manifest Title');
+      expect(result.openGraph).toMatchObject({ type: 'website' });
+      expect(mockApiClient.GET).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a value that is not a manifest', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      const manifestClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        manifest: { entries: {} },
+      });
+
+      const result = await manifestClient.getMetadata(() => ({
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Test Page Title');
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use fallback for paths missing from the manifest', async () => {
+      const manifestClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        manifest: {
+          dsn: 'test-dsn',
+          entries: {},
+          generatedAt: new Date().toISOString(),
+          version: 1,
+        },
+      });
+
+      const result = await manifestClient.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/missing',
+      }))({}, {} as any);
+
+      expect(result).toEqual({ title: 'Fallback Title' });
+      expect(mockApiClient.GET).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a manifest with an unsupported version', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      const manifestClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        manifest: {
+          dsn: 'test-dsn',
+          entries: {},
+          generatedAt: new Date().toISOString(),
+          version: 2,
+        },
+      });
+
+      const result = await manifestClient.getMetadata(() => ({
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Test Page Title');
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the manifest for another DSN', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      const manifestClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        manifest: {
+          dsn: 'other-dsn',
+          entries: { '/test': { metadata: { title: 'Other Site' } } },
+          generatedAt: new Date().toISOString(),
+          version: 1,
+        },
+      });
+
+      const result = await manifestClient.getMetadata(() => ({
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Test Page Title');
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getManyMetadata', () => {
+    it('should return metadata for every normalized path in order', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      const results = await client.getManyMetadata(['/b/', '/a', '/b']);
+
+      expect(results).toEqual([
+        { metadata: mockApiResponse, path: '/b' },
+        { metadata: mockApiResponse, path: '/a' },
+      ]);
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+      expect(mockApiClient.GET).toHaveBeenCalledWith(
+        '/v1/{dsn}/metadata/get-latest',
+        {
+          headers: { Authorization: 'Bearer test-api-key' },
+          params: { path: { dsn: 'test-dsn' }, query: { path: '/a' } },
+        }
+      );
+    });
+
+    it('should fill the cache used when rendering', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      await client.getManyMetadata(['/test']);
+      const result = await client.getMetadata(() => ({ path: '/test' }))(
+        {},
+        {} as any
+      );
+
+      expect(result.title).toBe('Test Page Title');
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only fetch paths missing from the cache', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      await client.getMetadata(() => ({ path: '/test' }))({}, {} as any);
+
+      await client.getManyMetadata(['/test', '/about']);
+
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+      expect(mockApiClient.GET).toHaveBeenLastCalledWith(
+        '/v1/{dsn}/metadata/get-latest',
+        expect.objectContaining({
+          params: { path: { dsn: 'test-dsn' }, query: { path: '/about' } },
+        })
+      );
+    });
+
+    it('should return an error for each path that failed', async () => {
+      vi.mocked(mockApiClient.GET).mockImplementation((_url, args) => {
+        if (args.params.query.path === '/broken') {
+          return Promise.reject(new Error('API down'));
+        }
+        if (args.params.query.path === '/missing') {
+          return Promise.resolve({
+            data: undefined,
+            error: { message: 'Not found' },
+            response: new Response(null, { status: 404 }),
+          });
+        }
+        return Promise.resolve({ data: mockApiResponse, error: undefined });
+      });
+
+      const [ok, broken, missing] = await client.getManyMetadata([
+        '/test',
+        '/broken',
+        '/missing',
+      ]);
+
+      expect(ok).toEqual({ metadata: mockApiResponse, path: '/test' });
+      expect(broken?.error).toBeInstanceOf(NetworkError);
+      expect(missing?.error).toBeInstanceOf(NotFoundError);
+    });
+
+    it('should fail every path while the circuit is open', async () => {
+      const breakerClient = new GenerateMetadataClient({
+        circuitBreaker: { failureThreshold: 1 },
+        dsn: 'test-dsn',
+      });
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+      await breakerClient.getManyMetadata(['/test']);
+
+      const results = await breakerClient.getManyMetadata(['/a', '/b']);
+
+      expect(results.map((result) => result.error?.name)).toEqual([
+        'CircuitBreakerOpenError',
+        'CircuitBreakerOpenError',
+      ]);
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop the rest of the batch once the circuit opens', async () => {
+      const breakerClient = new GenerateMetadataClient({
+        circuitBreaker: { failureThreshold: 2 },
+        dsn: 'test-dsn',
+      });
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: undefined,
+        error: { message: 'Service Unavailable' },
+        response: new Response(null, { status: 503 }),
+      });
+      const paths = Array.from({ length: 20 }, (_, index) => `/page-${index}`);
+
+      const results = await breakerClient.getManyMetadata(paths, {
+        concurrency: 2,
+      });
+
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+      expect(results.slice(0, 2).map((result) => result.error?.status)).toEqual(
+        [503, 503]
+      );
+      expect(
+        results
+          .slice(2)
+          .every((result) => result.error?.name === 'CircuitBreakerOpenError')
+      ).toBe(true);
+    });
+
+    it('should send a single trial request while the circuit is half-open', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const breakerClient = new GenerateMetadataClient({
+        circuitBreaker: { cooldownMs: 1000, failureThreshold: 1 },
+        dsn: 'test-dsn',
+      });
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+      await breakerClient.getManyMetadata(['/test']);
+      vi.advanceTimersByTime(1000);
+
+      const results = await breakerClient.getManyMetadata(['/a', '/b', '/c']);
+      vi.useRealTimers();
+
+      expect(results.map((result) => result.error?.name)).toEqual([
+        'NetworkError',
+        'CircuitBreakerOpenError',
+        'CircuitBreakerOpenError',
+      ]);
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch the rest of the batch once the trial succeeds', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const breakerClient = new GenerateMetadataClient({
+        circuitBreaker: { cooldownMs: 1000, failureThreshold: 1 },
+        dsn: 'test-dsn',
+      });
+      vi.mocked(mockApiClient.GET).mockRejectedValueOnce(new Error('API down'));
+      await breakerClient.getManyMetadata(['/test']);
+      vi.advanceTimersByTime(1000);
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      const results = await breakerClient.getManyMetadata(['/a', '/b']);
+      vi.useRealTimers();
+
+      expect(results).toEqual([
+        { metadata: mockApiResponse, path: '/a' },
+        { metadata: mockApiResponse, path: '/b' },
+      ]);
+    });
+
+    it('should read from the manifest without calling the API', async () => {
+      const manifestClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        manifest: {
+          dsn: 'test-dsn',
+          entries: { '/test': mockApiResponse },
+          generatedAt: new Date().toISOString(),
+          version: 1,
+        },
+      });
+
+      const [found, missing] = await manifestClient.getManyMetadata([
+        '/test',
+        '/missing',
+      ]);
+
+      expect(found).toEqual({ metadata: mockApiResponse, path: '/test' });
+      expect(missing?.error).toBeInstanceOf(NotFoundError);
+      expect(mockApiClient.GET).not.toHaveBeenCalled();
+    });
+
+    it('should merge the manifest with the other providers', async () => {
+      const manifestClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        manifest: {
+          dsn: 'test-dsn',
+          entries: { '/test': mockApiResponse },
+          generatedAt: new Date().toISOString(),
+          version: 1,
+        },
+        provider: [
+          apiProvider(),
+          staticProvider({ '/**': { metadata: { title: 'Default' } } }),
+        ],
+      });
+
+      const [found, missing] = await manifestClient.getManyMetadata([
+        '/test',
+        '/missing',
+      ]);
+
+      expect(found?.metadata?.metadata.title).toBe('Test Page Title');
+      expect(missing?.metadata?.metadata.title).toBe('Default');
+      expect(mockApiClient.GET).not.toHaveBeenCalled();
+    });
+
+    it('should merge the results of every provider', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      const providerClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        provider: [
+          staticProvider({ '/blog/*': { metadata: { title: 'Override' } } }),
+          apiProvider(),
+        ],
+      });
+
+      const [result] = await providerClient.getManyMetadata(['/blog/hello']);
+
+      expect(result?.metadata?.metadata.title).toBe('Override');
+      expect(result?.metadata?.metadata.description).toBe(
+        'Test page description'
+      );
+    });
+
+    it('should serve provider metadata when the API fails', async () => {
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+      const providerClient = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        provider: [
+          apiProvider(),
+          staticProvider({ '/**': { metadata: { title: 'Default' } } }),
+        ],
+      });
+
+      const [result] = await providerClient.getManyMetadata(['/test']);
+
+      expect(result?.metadata?.metadata.title).toBe('Default');
+    });
+
+    it('should read offline providers without a DSN', async () => {
+      const devClient = new GenerateMetadataClient({
+        dsn: undefined,
+        provider: staticProvider({ '/**': { metadata: { title: 'Local' } } }),
+      });
+
+      const [result] = await devClient.getManyMetadata(['/test']);
+
+      expect(result?.metadata?.metadata.title).toBe('Local');
+      expect(mockApiClient.GET).not.toHaveBeenCalled();
+    });
+
+    it('should throw a typed error without a DSN', async () => {
+      const devClient = new GenerateMetadataClient({ dsn: undefined });
+
+      await expect(devClient.getManyMetadata(['/test'])).rejects.toThrow(
+        GenerateMetadataError
+      );
+      await expect(devClient.getManyMetadata(['/test'])).rejects.toThrow(
+        'A DSN is required'
+      );
+    });
+  });
+
+  describe('warm', () => {
+    beforeEach(() => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+    });
+
+    it('should load every path into the cache and report progress', async () => {
+      const onProgress = vi.fn();
+
+      const result = await client.warm({
+        concurrency: 2,
+        onProgress,
+        paths: ['/a', '/b/', '/c', '/b'],
+      });
+
+      expect(result).toEqual({ failed: [], total: 3, warmed: 3 });
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        {
+          completed: 1,
+          result: { metadata: mockApiResponse, path: '/a' },
+          total: 3,
+        },
+        {
+          completed: 2,
+          result: { metadata: mockApiResponse, path: '/b' },
+          total: 3,
+        },
+        {
+          completed: 3,
+          result: { metadata: mockApiResponse, path: '/c' },
+          total: 3,
+        },
+      ]);
+
+      await client.getMetadata(() => ({ path: '/c' }))({}, {} as any);
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep warming other paths while one is slow', async () => {
+      let resolveSlow: (value: unknown) => void = () => {};
+      vi.mocked(mockApiClient.GET).mockImplementation((_url, args) =>
+        args.params.query.path === '/slow'
+          ? new Promise((resolve) => {
+              resolveSlow = resolve;
+            })
+          : Promise.resolve({ data: mockApiResponse, error: undefined })
+      );
+      const onProgress = vi.fn();
+
+      const pending = client.warm({
+        concurrency: 2,
+        onProgress,
+        paths: ['/slow', '/a', '/b', '/c'],
+      });
+      await vi.waitFor(() => {
+        expect(onProgress).toHaveBeenCalledTimes(3);
+      });
+      resolveSlow({ data: mockApiResponse, error: undefined });
+
+      expect(await pending).toEqual({ failed: [], total: 4, warmed: 4 });
+      expect(onProgress).toHaveBeenLastCalledWith({
+        completed: 4,
+        result: { metadata: mockApiResponse, path: '/slow' },
+        total: 4,
+      });
+    });
+
+    it('should warm the pages of a sitemap and a route manifest', async () => {
+      client = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        fetch: () =>
+          Promise.resolve(
+            new Response(
+              '<urlset><url><loc>https://example.com/about</loc></url></urlset>'
+            )
+          ),
+      });
+
+      await client.warm({
+        routeManifest: {
+          routes: { '/blog/hello': {} },
+          staticRoutes: [
+            { page: '/' },
+            { page: '/_not-found' },
+            { page: '/blog/[slug]' },
+            { page: '/robots.txt' },
+          ],
+        },
+        sitemap: 'https://example.com/sitemap.xml',
+      });
+
+      const warmedPaths = vi
+        .mocked(mockApiClient.GET)
+        .mock.calls.map(([, args]) => args.params.query.path);
+      expect(warmedPaths).toEqual(['/about', '/', '/blog/hello']);
+    });
+
+    it('should fetch a sitemap URL and the sitemaps it lists', async () => {
+      const sitemaps: Record<string, string> = {
+        'https://example.com/sitemap-0.xml':
+          '<urlset><url><loc>https://example.com/blog/hello</loc></url></urlset>',
+        'https://example.com/sitemap.xml':
+          '<sitemapindex><sitemap><loc>/sitemap-0.xml</loc></sitemap></sitemapindex>',
+      };
+      const customFetch = vi.fn((request: Request) =>
+        Promise.resolve(new Response(sitemaps[request.url]))
+      );
+      client = new GenerateMetadataClient({
+        dsn: 'test-dsn',
+        fetch: customFetch,
+      });
+
+      const result = await client.warm({
+        sitemap: 'https://example.com/sitemap.xml',
+      });
+
+      expect(result).toEqual({ failed: [], total: 1, warmed: 1 });
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report a local sitemap instead of reading it', async () => {
+      const sitemap = './public/sitemap.xml';
+
+      const result = await client.warm({ paths: ['/test'], sitemap });
+
+      expect(result.warmed).toBe(1);
+      expect(result.failed).toEqual([
+        { error: expect.any(GenerateMetadataError), path: sitemap },
+      ]);
+    });
+
+    it('should report failed paths instead of throwing', async () => {
+      vi.mocked(mockApiClient.GET).mockImplementation((_url, args) =>
+        args.params.query.path === '/broken'
+          ? Promise.reject(new Error('API down'))
+          : Promise.resolve({ data: mockApiResponse, error: undefined })
+      );
+
+      const result = await client.warm({ paths: ['/test', '/broken'] });
+
+      expect(result.warmed).toBe(1);
+      expect(result.failed).toEqual([
+        { error: expect.any(NetworkError), path: '/broken' },
+      ]);
+    });
+
+    it('should skip warming without a DSN', async () => {
+      const devClient = new GenerateMetadataClient({ dsn: undefined });
+
+      const result = await devClient.warm({ paths: ['/test'] });
+
+      expect(result).toEqual({ failed: [], total: 0, warmed: 0 });
+      expect(mockApiClient.GET).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('site title template', () => {
+    beforeEach(() => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      vi.mocked(mockApiClient.getSite).mockResolvedValue({
+        data: { site: { ...mockSite, titleTemplate: '%s | Example' } },
+        error: undefined,
+      });
+    });
+
+    it('should apply the title template to page titles', async () => {
+      const result = await client.getMetadata(() => ({ path: '/test' }))(
+        {},
+        {} as any
+      );
+
+      expect(result.title).toEqual({ absolute: 'Test Page Title | Example' });
+      expect(mockApiClient.getSite).toHaveBeenCalledWith({
+        headers: {
+          Authorization: 'Bearer test-api-key',
+        },
+        params: {
+          path: { dsn: 'test-dsn' },
+        },
+      });
+    });
+
+    it('should add the title template to root metadata', async () => {
+      const result = await client.getRootMetadata()({}, {} as any);
+
+      expect(result).toEqual({
+        title: { default: 'Example', template: '%s | Example' },
+      });
+    });
+
+    it('should cache the site', async () => {
+      const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+
+      await metadataFn({}, {} as any);
+      await metadataFn({}, {} as any);
+
+      expect(mockApiClient.getSite).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cache the site per API key', async () => {
+      await client.getMetadata(() => ({ apiKey: 'key-1', path: '/test' }))(
+        {},
+        {} as any
+      );
+      await client.getMetadata(() => ({ apiKey: 'key-2', path: '/test' }))(
+        {},
+        {} as any
+      );
+
+      expect(mockApiClient.getSite).toHaveBeenCalledTimes(2);
+      expect(mockApiClient.getSite).toHaveBeenLastCalledWith(
+        expect.objectContaining({ headers: { Authorization: 'Bearer key-2' } })
+      );
+    });
+
+    it('should leave titles untemplated when the site cannot be fetched', async () => {
+      vi.mocked(mockApiClient.getSite).mockRejectedValue(new Error('API down'));
+
+      const result = await client.getMetadata(() => ({ path: '/test' }))(
+        {},
+        {} as any
+      );
+
+      expect(result.title).toBe('Test Page Title');
+    });
+
+    it('should not retry a failed site on every render', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.mocked(mockApiClient.getSite).mockRejectedValue(new Error('API down'));
+      const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+
+      await metadataFn({}, {} as any);
+      await metadataFn({}, {} as any);
+      expect(mockApiClient.getSite).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(30_000);
+      await metadataFn({}, {} as any);
+      expect(mockApiClient.getSite).toHaveBeenCalledTimes(2);
+      vi.useRealTimers();
+    });
+
+    it('should wait for a site that loads after the metadata', async () => {
+      vi.mocked(mockApiClient.getSite).mockImplementation(
+        () =>
+          new Promise((resolve) => {
+            setTimeout(() => {
+              resolve({
+                data: { site: { ...mockSite, titleTemplate: '%s | Example' } },
+                error: undefined,
+              });
+            }, 5);
+          })
+      );
+
+      const result = await client.getMetadata(() => ({ path: '/test' }))(
+        {},
+        {} as any
+      );
+
+      expect(result.title).toEqual({ absolute: 'Test Page Title | Example' });
+    });
+
+    it('should not wait for a slow site beyond the latency budget', async () => {
+      vi.mocked(mockApiClient.getSite).mockReturnValue(new Promise(() => {}));
+
+      const result = await client.getMetadata(() => ({
+        latencyBudgetMs: 10,
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Test Page Title');
+    });
+
+    it('should bound the site wait of root metadata', async () => {
+      vi.useFakeTimers();
+      vi.mocked(mockApiClient.getSite).mockReturnValue(new Promise(() => {}));
+
+      const result = client.getRootMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+      }))({}, {} as any);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await expect(result).resolves.toEqual({ title: 'Fallback Title' });
+      vi.useRealTimers();
+    });
+
+    it('should count site failures toward the circuit breaker', async () => {
+      const breakerClient = new GenerateMetadataClient({
+        circuitBreaker: { failureThreshold: 1 },
+        dsn: 'test-dsn',
+      });
+      vi.mocked(mockApiClient.getSite).mockRejectedValue(new Error('API down'));
+
+      await breakerClient.getRootMetadata()({}, {} as any);
+      const result = await breakerClient.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result).toEqual({ title: 'Fallback Title' });
+      expect(mockApiClient.GET).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('strict mode', () => {
+    beforeEach(() => {
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        dsn: 'test-dsn',
+        strict: true,
+      });
+    });
+
+    it('should throw an auth error for a rejected API key', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: undefined,
+        error: { message: 'Unauthorized' },
+        response: new Response(null, { status: 401 }),
+      });
+
+      await expect(
+        client.getMetadata(() => ({
+          fallback: { title: 'Fallback Title' },
+          path: '/test',
+        }))({}, {} as any)
+      ).rejects.toBeInstanceOf(GenerateMetadataAuthError);
+    });
+
+    it('should throw a network error when the API is unreachable', async () => {
+      vi.mocked(mockApiClient.GET).mockRejectedValue(
+        new TypeError('fetch failed')
+      );
+
+      await expect(
+        client.getMetadata(() => ({ path: '/test' }))({}, {} as any)
+      ).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('should throw a timeout error when the latency budget is exceeded', async () => {
+      vi.mocked(mockApiClient.GET).mockReturnValue(new Promise(() => {}));
+
+      await expect(
+        client.getMetadata(() => ({ latencyBudgetMs: 10, path: '/test' }))(
+          {},
+          {} as any
+        )
+      ).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('should use the fallback when strict mode is off', async () => {
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        dsn: 'test-dsn',
+      });
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: undefined,
+        error: { message: 'Unauthorized' },
+        response: new Response(null, { status: 401 }),
+      });
+
+      const result = await client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result).toEqual({ title: 'Fallback Title' });
+    });
+  });
+
+  describe('lifecycle hooks', () => {
+    let hooks: {
+      [K in
+        | 'onCacheHit'
+        | 'onCacheMiss'
+        | 'onFallbackUsed'
+        | 'onFetchError'
+        | 'onFetchStart'
+        | 'onFetchSuccess'
+        | 'onRevalidate'
+        | 'onWebhookReceived']: ReturnType<typeof vi.fn>;
+    };
+
+    beforeEach(() => {
+      hooks = {
+        onCacheHit: vi.fn(),
+        onCacheMiss: vi.fn(),
+        onFallbackUsed: vi.fn(),
+        onFetchError: vi.fn(),
+        onFetchStart: vi.fn(),
+        onFetchSuccess: vi.fn(),
+        onRevalidate: vi.fn(),
+        onWebhookReceived: vi.fn(),
+      };
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        dsn: 'test-dsn',
+        on: hooks,
+      });
+    });
+
+    it('should report cache misses, API requests and cache hits', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: { ...mockApiResponse, metadataRevisionId: 'rev-1' },
+        error: undefined,
+      });
+      const metadataFn = client.getMetadata(() => ({ path: '/test/' }));
+
+      await metadataFn({}, {} as any);
+      await metadataFn({}, {} as any);
+
+      expect(hooks.onCacheMiss).toHaveBeenCalledWith({
+        dsn: 'test-dsn',
+        path: '/test',
+        reason: 'missing',
+      });
+      expect(hooks.onFetchStart).toHaveBeenCalledWith({
+        dsn: 'test-dsn',
+        path: '/test',
+      });
+      expect(hooks.onFetchSuccess).toHaveBeenCalledWith({
+        dsn: 'test-dsn',
+        duration: expect.any(Number),
+        path: '/test',
+        revisionId: 'rev-1',
+      });
+      expect(hooks.onCacheHit).toHaveBeenCalledWith({
+        dsn: 'test-dsn',
+        path: '/test',
+        revisionId: 'rev-1',
+        state: 'fresh',
+      });
+      expect(hooks.onFallbackUsed).not.toHaveBeenCalled();
+    });
+
+    it('should report API errors and fallback use', async () => {
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+
+      await client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(hooks.onFetchError).toHaveBeenCalledWith({
+        dsn: 'test-dsn',
+        duration: expect.any(Number),
+        error: expect.any(NetworkError),
+        path: '/test',
+      });
+      expect(hooks.onFallbackUsed).toHaveBeenCalledWith({
+        dsn: 'test-dsn',
+        error: undefined,
+        path: '/test',
+      });
+    });
+
+    it('should report webhooks and revalidations', async () => {
+      const handlers = client.revalidateWebhookHandler({
+        webhookSecret: 'test-secret',
+      });
+
+      await handlers.POST(
+        new Request('http://localhost:3000/api/webhook', {
+          body: JSON.stringify({
+            _type: 'metadata_update',
+            metadataRevisionId: 'rev-2',
+            path: '/test/',
+            site: { dsn: 'test-dsn', hostname: 'example.com' },
+          }),
+          headers: {
+            authorization: 'Bearer test-secret',
+            'content-type': 'application/json',
+          },
+          method: 'POST',
+        })
+      );
+
+      expect(hooks.onWebhookReceived).toHaveBeenCalledWith({
+        dsn: 'test-dsn',
+        path: '/test/',
+        revisionId: 'rev-2',
+        type: 'metadata_update',
+      });
+      expect(hooks.onRevalidate).toHaveBeenCalledWith({
+        dsn: 'test-dsn',
+        duration: expect.any(Number),
+        path: '/test',
+        revisionId: 'rev-2',
+      });
+    });
+
+    it('should not let a failing hook break rendering', async () => {
+      hooks.onCacheMiss.mockImplementation(() => {
+        throw new Error('hook failed');
+      });
+      hooks.onFetchSuccess.mockRejectedValue(new Error('hook failed'));
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      const result = await client.getMetadata(() => ({ path: '/test' }))(
+        {},
+        {} as any
+      );
+
+      expect(result.title).toBe('Test Page Title');
+    });
+  });
+
+  describe('metrics', () => {
+    it('should report cache hit ratio, API error rate and latency', async () => {
+      vi.mocked(mockApiClient.GET)
+        .mockResolvedValueOnce({ data: mockApiResponse, error: undefined })
+        .mockRejectedValueOnce(new Error('API down'));
+      const sink = { counter: vi.fn(), gauge: vi.fn(), histogram: vi.fn() };
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        dsn: 'test-dsn',
+        metrics: sink,
+      });
+
+      await client.getMetadata(() => ({ path: '/test' }))({}, {} as any);
+      await client.getMetadata(() => ({ path: '/test' }))({}, {} as any);
+      await client.getMetadata(() => ({ path: '/broken' }))({}, {} as any);
+
+      const stats = client.getStats();
+      expect(stats.cache).toMatchObject({
+        entries: 1,
+        hitRatio: 1 / 3,
+        hits: 1,
+        misses: 2,
+        staleHits: 0,
+      });
+      expect(stats.api).toMatchObject({
+        errorRate: 0.5,
+        errors: 1,
+        latency: { count: 2 },
+        requests: 2,
+      });
+      expect(stats.fallbacks).toBe(1);
+      expect(sink.counter).toHaveBeenCalledWith(
+        'generate_metadata_cache_hits_total',
+        1,
+        { state: 'fresh' }
+      );
+      expect(sink.counter).toHaveBeenCalledWith(
+        'generate_metadata_api_errors_total',
+        1
+      );
+      expect(sink.histogram).toHaveBeenCalledWith(
+        'generate_metadata_api_request_duration_ms',
+        expect.any(Number),
+        { outcome: 'success' }
+      );
+      expect(sink.gauge).toHaveBeenCalledWith(
+        'generate_metadata_cache_entries',
+        1
+      );
+    });
+
+    it('should not let a failing sink break rendering', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      const failing = vi.fn(() => {
+        throw new Error('sink failed');
+      });
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        dsn: 'test-dsn',
+        metrics: { counter: failing, gauge: failing, histogram: failing },
+      });
+
+      const result = await client.getMetadata(() => ({ path: '/test' }))(
+        {},
+        {} as any
+      );
+
+      expect(result.title).toBe('Test Page Title');
+      expect(client.getStats().cache.misses).toBe(1);
+    });
+  });
+
+  describe('provider', () => {
+    it('should read metadata from the provider instead of the API', async () => {
+      const getMetadata = vi.fn().mockResolvedValue({
+        metadata: { title: 'Local Title' },
+      });
+      client = new GenerateMetadataClient({
+        dsn: undefined,
+        provider: { getMetadata, name: 'test' },
+      });
+
+      const result = await client.getMetadata(() => ({ path: '/blog/' }))(
+        {},
+        {} as any
+      );
+
+      expect(result.title).toBe('Local Title');
+      expect(getMetadata).toHaveBeenCalledWith({
+        path: '/blog',
+        signal: undefined,
+      });
+      expect(mockApiClient.GET).not.toHaveBeenCalled();
+    });
+
+    it('should deep-merge a chain of providers in order', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: {
+          metadata: { description: 'API Description', title: 'API Title' },
+          metadataRevisionId: 'rev-1',
+        },
+        error: undefined,
+      });
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        dsn: 'test-dsn',
+        provider: [
+          staticProvider({ '/blog/*': { metadata: { title: 'Override' } } }),
+          apiProvider(),
+          staticProvider({
+            '/**': { metadata: { description: 'Default', noindex: true } },
+          }),
+        ],
+      });
+
+      const result = await client.getMetadata(() => ({ path: '/blog/hello' }))(
+        {},
+        {} as any
+      );
+
+      expect(result.title).toBe('Override');
+      expect(result.description).toBe('API Description');
+      expect(result.robots).toBe('noindex,nofollow');
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the fallback when the provider fails', async () => {
+      client = new GenerateMetadataClient({
+        dsn: undefined,
+        provider: {
+          getMetadata: vi.fn().mockRejectedValue(new Error('bad file')),
+          name: 'test',
+        },
+      });
+
+      const result = await client.getMetadata(() => ({
+        fallback: { title: 'Fallback Title' },
+        path: '/blog',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Fallback Title');
+    });
+  });
+
+  describe('multi-site', () => {
+    const sites = {
+      'brand-a.com': { apiKey: 'key-a', dsn: 'dsn-a' },
+      'brand-b.com': { apiKey: 'key-b', dsn: 'dsn-b' },
+    };
+
+    const renderFor = (host: string, path = '/test') => {
+      vi.mocked(headers).mockResolvedValue(new Headers({ host }) as any);
+      return client.getMetadata(() => ({ path }))({}, {} as any);
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockApiClient.GET).mockImplementation((_url, args) =>
+        Promise.resolve({
+          data: { metadata: { title: `Title for ${args.params.path.dsn}` } },
+          error: undefined,
+        })
+      );
+      client = new GenerateMetadataClient({
+        apiKey: 'default-key',
+        dsn: 'default-dsn',
+        sites,
+      });
+    });
+
+    it('should pick the site by the host header', async () => {
+      const result = await renderFor('Brand-A.com:3000');
+
+      expect(result.title).toBe('Title for dsn-a');
+      expect(mockApiClient.GET).toHaveBeenCalledWith(
+        '/v1/{dsn}/metadata/get-latest',
+        expect.objectContaining({
+          headers: { Authorization: 'Bearer key-a' },
+          params: { path: { dsn: 'dsn-a' }, query: { path: '/test' } },
+        })
+      );
+      expect(mockApiClient.getSite).toHaveBeenCalledWith(
+        expect.objectContaining({ params: { path: { dsn: 'dsn-a' } } })
+      );
+    });
+
+    it('should ignore the X-Forwarded-Host header', async () => {
+      vi.mocked(headers).mockResolvedValue(
+        new Headers({ host: 'unknown.com', 'x-forwarded-host': 'brand-a.com' })
+      );
+
+      const result = await client.getMetadata(() => ({ path: '/test' }))(
+        {},
+        {} as any
+      );
+
+      expect(result.title).toBe('Title for default-dsn');
+    });
+
+    it('should use the default DSN for unknown hosts', async () => {
+      const result = await renderFor('unknown.com');
+
+      expect(result.title).toBe('Title for default-dsn');
+    });
+
+    it('should resolve sites with a function and an explicit hostname', async () => {
+      const resolveSite = vi.fn((hostname: string) =>
+        hostname === 'brand-c.com' ? { dsn: 'dsn-c' } : undefined
+      );
+      client = new GenerateMetadataClient({
+        dsn: undefined,
+        sites: resolveSite,
+      });
+
+      const result = await client.getMetadata(() => ({
+        hostname: 'brand-c.com',
+        path: '/test',
+      }))({}, {} as any);
+
+      expect(result.title).toBe('Title for dsn-c');
+      expect(resolveSite).toHaveBeenCalledWith('brand-c.com');
+      expect(headers).not.toHaveBeenCalled();
+    });
+
+    it('should partition the cache per site', async () => {
+      expect((await renderFor('brand-a.com')).title).toBe('Title for dsn-a');
+      expect((await renderFor('brand-b.com')).title).toBe('Title for dsn-b');
+      expect((await renderFor('brand-a.com')).title).toBe('Title for dsn-a');
+
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+    });
+
+    it('should clear only the partition of the webhook site', async () => {
+      await renderFor('brand-a.com');
+      await renderFor('brand-b.com');
+
+      const handlers = client.revalidateWebhookHandler({
+        webhookSecret: 'test-secret',
+      });
+      const response = await handlers.POST(
+        new Request('http://localhost:3000/api/webhook', {
+          body: JSON.stringify({
+            _type: 'metadata_update',
+            metadataRevisionId: 'rev-2',
+            path: '/test',
+            site: { dsn: 'dsn-a', hostname: 'brand-a.com' },
+          }),
+          headers: {
+            authorization: 'Bearer test-secret',
+            'content-type': 'application/json',
+          },
+          method: 'POST',
+        })
+      );
+      expect(response.status).toBe(200);
+
+      await renderFor('brand-a.com');
+      await renderFor('brand-b.com');
+
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(3);
+      expect(mockApiClient.GET).toHaveBeenLastCalledWith(
+        '/v1/{dsn}/metadata/get-latest',
+        expect.objectContaining({
+          params: expect.objectContaining({ path: { dsn: 'dsn-a' } }),
+        })
+      );
+    });
+  });
+
+  describe('tracing', () => {
+    it('should wrap fetches, API calls, conversion and merge in spans', async () => {
+      const spans: { name: string; attributes: unknown; span: any }[] = [];
+      const tracer = {
+        startActiveSpan: vi.fn((name, options, fn) => {
+          const span = {
+            end: vi.fn(),
+            recordException: vi.fn(),
+            setAttribute: vi.fn(),
+            setStatus: vi.fn(),
+            spanContext: () => ({
+              spanId: '00f067aa0ba902b7',
+              traceFlags: 1,
+              traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+            }),
+          };
+          spans.push({ attributes: options.attributes, name, span });
+          return fn(span);
+        }),
+      };
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        dsn: 'test-dsn',
+        tracer,
+      });
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: { ...mockApiResponse, metadataRevisionId: 'rev-1' },
+        error: undefined,
+      });
+
+      await client.getMetadata(() => ({ path: '/test/' }))({}, {} as any);
+
+      expect(spans.map(({ name }) => name)).toEqual(
+        expect.arrayContaining([
+          'generate-metadata.fetchMetadata',
+          'generate-metadata.metadataGetLatest',
+          'generate-metadata.convert',
+          'generate-metadata.merge',
+        ])
+      );
+      const fetchSpan = spans.find(
+        ({ name }) => name === 'generate-metadata.fetchMetadata'
+      );
+      expect(fetchSpan?.attributes).toEqual({
+        'generate_metadata.dsn': 'test-dsn',
+        'generate_metadata.path': '/test',
+      });
+      expect(fetchSpan?.span.setAttribute).toHaveBeenCalledWith(
+        'generate_metadata.cache_status',
+        'miss'
+      );
+      expect(fetchSpan?.span.setAttribute).toHaveBeenCalledWith(
+        'generate_metadata.revision_id',
+        'rev-1'
+      );
+      for (const { span } of spans) {
+        expect(span.end).toHaveBeenCalledTimes(1);
+      }
+
+      expect(mockApiClient.GET).toHaveBeenCalledWith(
+        '/v1/{dsn}/metadata/get-latest',
+        expect.objectContaining({
+          headers: {
+            Authorization: 'Bearer test-api-key',
+            traceparent:
+              '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+          },
+        })
+      );
+    });
+  });
+
+  describe('logging', () => {
+    it('should send warnings to a custom logger', async () => {
+      const logger = {
+        debug: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+      };
+      client = new GenerateMetadataClient({
+        apiKey: 'sk_live_123',
+        dsn: 'test-dsn',
+        logger,
+      });
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+
+      await client.getMetadata(() => ({ path: '/test' }))({}, {} as any);
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('generate-metadata'),
+        'Failed to fetch metadata for path:',
+        '/test',
+        'Error:',
+        expect.any(Error)
+      );
+    });
+
+    it('should redact per-request and site API keys in logged errors', async () => {
+      const logger = {
+        debug: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+      };
+      client = new GenerateMetadataClient({
+        apiKey: 'sk_live_123',
+        dsn: 'test-dsn',
+        logger,
+        sites: { 'example.com': { apiKey: 'sk_site_456', dsn: 'site-dsn' } },
+      });
+      vi.mocked(mockApiClient.GET).mockImplementation((_url, args) =>
+        Promise.reject(
+          new Error(`Rejected ${args.headers.Authorization.slice(7)}`)
+        )
+      );
+
+      await client.getMetadata(() => ({
+        apiKey: 'sk_request_789',
+        path: '/test',
+      }))({}, {} as any);
+      await client.getMetadata(() => ({
+        hostname: 'example.com',
+        path: '/test',
+      }))({}, {} as any);
+
+      const messages = logger.warn.mock.calls
+        .flat()
+        .filter((arg): arg is Error => arg instanceof Error)
+        .map((error) => `${error.message} ${String(error.cause)}`);
+      expect(messages).toHaveLength(2);
+      for (const message of messages) {
+        expect(message).not.toMatch(secretKeyRegex);
+        expect(message).toContain('[REDACTED]');
+      }
+    });
+
+    it('should log debug messages when debug is true', () => {
+      const logger = {
+        debug: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+      };
+
+      new GenerateMetadataClient({ debug: true, dsn: 'test-dsn', logger });
+
+      expect(logger.debug).toHaveBeenCalledWith(
+        expect.any(String),
+        'Initialized client with DSN:',
+        'test-dsn',
+        'API key:',
+        'not provided'
+      );
+    });
+  });
+
+  describe('connection options', () => {
+    it('should pass baseUrl, fetch and headers to the API client', () => {
+      const customFetch = vi.fn();
+
+      new GenerateMetadataClient({
+        baseUrl: 'https://staging.example.com/api/openapi',
+        dsn: 'test-dsn',
+        fetch: customFetch,
+        headers: { 'x-proxy-token': 'secret' },
+      });
+
+      expect(FetchApiClient).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          baseUrl: 'https://staging.example.com/api/openapi',
+          fetch: customFetch,
+          headers: { 'x-proxy-token': 'secret' },
+        })
+      );
+    });
+  });
+
+  describe('registerBuild', () => {
+    it('should register the build with the framework name', async () => {
+      vi.mocked(mockApiClient.registerBuild).mockResolvedValue({
+        data: { message: 'ok', success: true },
+        error: undefined,
+      });
+
+      await expect(client.registerBuild('build-123')).resolves.toBe(true);
+
+      expect(mockApiClient.registerBuild).toHaveBeenCalledWith({
+        body: { buildId: 'build-123', framework: 'next' },
+        headers: {
+          Authorization: 'Bearer test-api-key',
+        },
+        params: {
+          path: { dsn: 'test-dsn' },
+        },
+      });
+    });
+
+    it('should not throw when registration fails', async () => {
+      vi.mocked(mockApiClient.registerBuild).mockRejectedValue(
+        new Error('API down')
+      );
+
+      await expect(client.registerBuild('build-123')).resolves.toBe(false);
+    });
+
+    it('should skip registration without a DSN', async () => {
+      const devClient = new GenerateMetadataClient({ dsn: undefined });
+
+      await expect(devClient.registerBuild('build-123')).resolves.toBe(false);
+      expect(mockApiClient.registerBuild).not.toHaveBeenCalled();
+    });
+
+    it('should register the build ID from the wrapped Next.js config', async () => {
+      vi.mocked(mockApiClient.registerBuild).mockResolvedValue({
+        data: { message: 'ok', success: true },
+        error: undefined,
+      });
+
+      const nextConfig = client.withRegisterBuild({
+        generateBuildId: () => 'custom-build',
+        reactStrictMode: true,
+      });
+
+      expect(nextConfig.reactStrictMode).toBe(true);
+      await expect(nextConfig.generateBuildId?.()).resolves.toBe(
+        'custom-build'
+      );
+      expect(mockApiClient.registerBuild).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: { buildId: 'custom-build', framework: 'next' },
+        })
+      );
+    });
+
+    it('should generate a build ID when the config does not', async () => {
+      vi.mocked(mockApiClient.registerBuild).mockResolvedValue({
+        data: { message: 'ok', success: true },
+        error: undefined,
+      });
+
+      const buildId = await client.withRegisterBuild().generateBuildId?.();
+
+      expect(buildId).toEqual(expect.any(String));
+      expect(mockApiClient.registerBuild).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: { buildId, framework: 'next' },
+        })
+      );
+    });
+  });
+
+  describe('getRootMetadata', () => {
+    it('should return empty metadata when no factory provided', async () => {
+      const rootMetadataFn = client.getRootMetadata();
+      const result = await rootMetadataFn({}, {} as any);
+
+      expect(result).toEqual({});
+    });
+
+    it('should return empty metadata when factory returns empty object', async () => {
+      const rootMetadataFn = client.getRootMetadata(() => ({}));
+      const result = await rootMetadataFn({}, {} as any);
+
+      expect(result).toEqual({});
+    });
+
+    it('should return fallback metadata when provided', async () => {
+      const fallbackMetadata = {
+        description: 'Root Fallback Description',
+        title: 'Root Fallback Title',
+      };
+
+      const rootMetadataFn = client.getRootMetadata(() => ({
+        fallback: fallbackMetadata,
+      }));
+      const result = await rootMetadataFn({}, {} as any);
+
+      expect(result).toEqual(fallbackMetadata);
+    });
+
+    it('should merge override metadata properly', async () => {
+      const fallbackMetadata = {
+        description: 'Root Fallback Description',
+        title: 'Root Fallback Title',
+      };
+
+      const overrideMetadata = {
+        keywords: ['root', 'override'],
+        title: 'Root Override Title',
+      };
+
+      const rootMetadataFn = client.getRootMetadata(() => ({
+        fallback: fallbackMetadata,
+        override: overrideMetadata,
+      }));
+      const result = await rootMetadataFn({}, {} as any);
+
+      expect(result).toEqual({
+        description: 'Root Fallback Description', // Fallback preserved
+        keywords: ['root', 'override'], // Override added
+        title: 'Root Override Title', // Override wins
+      });
+    });
+
+    it('should handle async factory functions', async () => {
+      const asyncFactory = async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return {
+          fallback: {
+            description: 'Async Root Description',
+            title: 'Async Root Title',
+          },
+        };
+      };
+
+      const rootMetadataFn = client.getRootMetadata(asyncFactory);
+      const result = await rootMetadataFn({}, {} as any);
+
+      expect(result).toEqual({
+        description: 'Async Root Description',
+        title: 'Async Root Title',
+      });
+    });
+
+    it('should pass props and parent to factory function', async () => {
+      const mockFactory = vi.fn().mockReturnValue({
+        fallback: { title: 'Test Title' },
+      });
+      const mockProps = { test: 'prop' };
+      const mockParent = { test: 'parent' } as any;
+
+      const rootMetadataFn = client.getRootMetadata(mockFactory);
+      await rootMetadataFn(mockProps, mockParent);
+
+      expect(mockFactory).toHaveBeenCalledWith(mockProps, mockParent);
+    });
+  });
+
+  describe('triggerRevalidation', () => {
+    it('should clear cache and call revalidatePath for specific path', async () => {
+      // First, populate the cache
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+
+      const metadataFn = client.getMetadata(() => ({ path: '/test' }));
+      await metadataFn({}, {} as any);
+
+      // Clear mocks to verify cache behavior
+      vi.clearAllMocks();
+
+      // Call clearCache and triggerRevalidation (which is what the webhook handler does)
+      (client as any).clearCache('/test');
+      await (client as any).triggerRevalidation('/test');
+
+      // Verify revalidatePath was called
+      expect(revalidatePath).toHaveBeenCalledWith('/test');
+
+      // Verify cache was cleared by fetching again
       await metadataFn({}, {} as any);
       expect(mockApiClient.GET).toHaveBeenCalledTimes(1); // Should fetch again since cache was cleared
     });
@@ -1419,6 +3868,120 @@ describe('GenerateMetadataClient (Next.js)', () => {
       expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
     });
 
+    describe('query policy', () => {
+      beforeEach(() => {
+        vi.mocked(mockApiClient.GET).mockResolvedValue({
+          data: mockApiResponse,
+          error: undefined,
+        });
+      });
+
+      it('should keep all query parameters sorted', async () => {
+        client = new GenerateMetadataClient({
+          apiKey: 'test-api-key',
+          dsn: 'test-dsn',
+          query: 'keep',
+        });
+
+        await client.getMetadata(() => ({
+          path: '/search/?q=x&category=y&utm_source=newsletter',
+        }))({}, {} as any);
+
+        expect(mockApiClient.GET).toHaveBeenCalledWith(
+          '/v1/{dsn}/metadata/get-latest',
+          expect.objectContaining({
+            params: {
+              path: { dsn: 'test-dsn' },
+              query: { path: '/search?category=y&q=x' },
+            },
+          })
+        );
+      });
+
+      it('should keep only allowlisted query parameters', async () => {
+        client = new GenerateMetadataClient({
+          apiKey: 'test-api-key',
+          dsn: 'test-dsn',
+          query: { allow: ['q'] },
+        });
+
+        await client.getMetadata(() => ({
+          path: '/search?q=x&page=2',
+        }))({}, {} as any);
+
+        expect(mockApiClient.GET).toHaveBeenCalledWith(
+          '/v1/{dsn}/metadata/get-latest',
+          expect.objectContaining({
+            params: {
+              path: { dsn: 'test-dsn' },
+              query: { path: '/search?q=x' },
+            },
+          })
+        );
+      });
+
+      it('should cache each kept query variant separately', async () => {
+        client = new GenerateMetadataClient({
+          dsn: 'test-dsn',
+          query: 'keep',
+        });
+
+        await client.getMetadata(() => ({ path: '/search?q=a' }))(
+          {},
+          {} as any
+        );
+        await client.getMetadata(() => ({ path: '/search?q=b' }))(
+          {},
+          {} as any
+        );
+        await client.getMetadata(() => ({ path: '/search?q=a' }))(
+          {},
+          {} as any
+        );
+
+        expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+      });
+
+      it('should apply the policy in clearCache and webhook handlers', async () => {
+        client = new GenerateMetadataClient({
+          dsn: 'test-dsn',
+          query: 'keep',
+        });
+        const clearCacheSpy = vi.spyOn(client as any, 'clearCache');
+
+        await client.getMetadata(() => ({ path: '/search?q=a' }))(
+          {},
+          {} as any
+        );
+
+        const handlers = client.revalidateWebhookHandler({
+          webhookSecret: 'test-secret',
+        });
+        await handlers.POST(
+          new Request('http://localhost:3000/api/webhook', {
+            body: JSON.stringify({
+              _type: 'metadata_update',
+              path: '/search/?q=a&utm_source=x',
+            }),
+            headers: {
+              authorization: 'Bearer test-secret',
+              'content-type': 'application/json',
+            },
+            method: 'POST',
+          })
+        );
+
+        expect(clearCacheSpy).toHaveBeenCalledWith('/search?q=a');
+        expect(revalidatePath).toHaveBeenCalledWith('/search');
+
+        await client.getMetadata(() => ({ path: '/search?q=a' }))(
+          {},
+          {} as any
+        );
+        expect(mockApiClient.GET).toHaveBeenCalledTimes(2);
+      });
+    });
+
     it('should normalize path in triggerRevalidation', async () => {
       await (client as any).triggerRevalidation('/test/');
       expect(revalidatePath).toHaveBeenCalledWith('/test');
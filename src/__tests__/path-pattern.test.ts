@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  comparePathPatterns,
+  isPathPattern,
+  matchPathPattern,
+} from '../utils/path-pattern';
+
+describe('matchPathPattern', () => {
+  it.each([
+    ['/', '/', true],
+    ['/', '/blog', false],
+    ['/blog', '/blog', true],
+    ['/blog', '/blog/hello', false],
+    ['/blog/[slug]', '/blog/hello', true],
+    ['/blog/[slug]', '/blog/hello/world', false],
+    ['/blog/*', '/blog/hello', true],
+    ['/blog/*.html', '/blog/hello.html', true],
+    ['/blog/*.html', '/blog/hello.txt', false],
+    ['/docs/[...slug]', '/docs', false],
+    ['/docs/[...slug]', '/docs/a/b', true],
+    ['/docs/**', '/docs', true],
+    ['/docs/**', '/docs/a/b', true],
+    ['/docs/[[...slug]]', '/docs', true],
+    ['/**', '/', true],
+    ['/a.b', '/axb', false],
+  ])('should match %s against %s: %s', (pattern, path, expected) => {
+    expect(matchPathPattern(pattern, path)).toBe(expected);
+  });
+});
+
+describe('isPathPattern', () => {
+  it('should detect wildcards and dynamic segments', () => {
+    expect(isPathPattern('/blog/*')).toBe(true);
+    expect(isPathPattern('/blog/[slug]')).toBe(true);
+    expect(isPathPattern('/blog/hello')).toBe(false);
+  });
+});
+
+describe('comparePathPatterns', () => {
+  it('should order more specific patterns first', () => {
+    const patterns = [
+      '/**',
+      '/blog/[...slug]',
+      '/blog/*',
+      '/blog/*.html',
+      '/blog/hello',
+      '/blog',
+      '/',
+    ];
+
+    expect(patterns.sort(comparePathPatterns)).toEqual([
+      '/blog/hello',
+      '/blog/*.html',
+      '/blog/*',
+      '/blog',
+      '/blog/[...slug]',
+      '/',
+      '/**',
+    ]);
+  });
+});
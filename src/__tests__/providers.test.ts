@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  apiProvider,
+  isApiProvider,
+  mergeProviderResults,
+} from '../utils/providers';
+import { staticProvider } from '../utils/providers/static';
+
+describe('mergeProviderResults', () => {
+  it('should deep-merge results with earlier results taking precedence', () => {
+    expect(
+      mergeProviderResults([
+        { metadata: { openGraph: { title: 'Override' } } },
+        null,
+        {
+          metadata: {
+            description: 'From API',
+            openGraph: { description: 'OG from API', title: 'API' },
+          },
+          metadataRevisionId: 'rev-1',
+        },
+        { metadata: { description: 'Default', title: 'Default' } },
+      ])
+    ).toEqual({
+      metadata: {
+        description: 'From API',
+        openGraph: { description: 'OG from API', title: 'Override' },
+        title: 'Default',
+      },
+      metadataRevisionId: 'rev-1',
+    });
+  });
+
+  it('should replace lists such as images and custom tags whole', () => {
+    const image = {
+      height: 630,
+      mimeType: 'image/png',
+      url: 'https://example.com/override.png',
+      width: 1200,
+    };
+
+    expect(
+      mergeProviderResults([
+        {
+          metadata: {
+            customTags: [{ content: 'override', name: 'robots-extra' }],
+            openGraph: { images: [image] },
+          },
+        },
+        {
+          metadata: {
+            customTags: [
+              { content: 'api', name: 'author' },
+              { content: 'api', name: 'publisher' },
+            ],
+            openGraph: {
+              images: [
+                {
+                  alt: 'API image',
+                  height: 600,
+                  mimeType: 'image/jpeg',
+                  url: 'https://example.com/api.jpg',
+                  width: 800,
+                },
+              ],
+              title: 'API',
+            },
+          },
+        },
+      ])
+    ).toEqual({
+      metadata: {
+        customTags: [{ content: 'override', name: 'robots-extra' }],
+        openGraph: { images: [image], title: 'API' },
+      },
+    });
+  });
+
+  it('should return a single result as-is and null when there are none', () => {
+    const result = { metadata: { title: 'Only' } };
+
+    expect(mergeProviderResults([null, result])).toBe(result);
+    expect(mergeProviderResults([null, null])).toBeNull();
+  });
+});
+
+describe('apiProvider', () => {
+  it('should only be usable in a client chain', async () => {
+    expect(isApiProvider(apiProvider())).toBe(true);
+    expect(isApiProvider(staticProvider({}))).toBe(false);
+    await expect(apiProvider().getMetadata({ path: '/' })).rejects.toThrow(
+      'client `provider` chain'
+    );
+  });
+});
+
+describe('staticProvider', () => {
+  it('should return the metadata of the most specific pattern', async () => {
+    const provider = staticProvider({
+      '/**': { metadata: { title: 'Default' } },
+      '/blog/[slug]': { metadata: { title: 'Post' } },
+    });
+
+    expect(await provider.getMetadata({ path: '/blog/hello' })).toEqual({
+      metadata: { title: 'Post' },
+    });
+    expect(await provider.getMetadata({ path: '/about' })).toEqual({
+      metadata: { title: 'Default' },
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import { withRetry } from '../utils/api/retry';
+
+function createResult(status: number, headers?: Record<string, string>) {
+  return {
+    data: status < 400 ? { metadata: {} } : undefined,
+    response: new Response(null, { headers, status }),
+  };
+}
+
+const retry = { baseDelayMs: 1, maxDelayMs: 10, retries: 2 };
+
+describe('withRetry', () => {
+  it('should not retry when retry options are not provided', async () => {
+    const request = vi.fn().mockResolvedValue(createResult(503));
+
+    const result = await withRetry(request, {});
+
+    expect(result.response?.status).toBe(503);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry 5xx responses until one succeeds', async () => {
+    const request = vi
+      .fn()
+      .mockResolvedValueOnce(createResult(502))
+      .mockResolvedValueOnce(createResult(503))
+      .mockResolvedValueOnce(createResult(200));
+
+    const result = await withRetry(request, { retry });
+
+    expect(result.response?.status).toBe(200);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return the last response once retries are exhausted', async () => {
+    const request = vi.fn().mockResolvedValue(createResult(500));
+
+    const result = await withRetry(request, { retry });
+
+    expect(result.response?.status).toBe(500);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry 4xx responses', async () => {
+    const request = vi.fn().mockResolvedValue(createResult(404));
+
+    const result = await withRetry(request, { retry });
+
+    expect(result.response?.status).toBe(404);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry results without a response', async () => {
+    const request = vi.fn().mockResolvedValue({ data: undefined });
+
+    await withRetry(request, { retry });
+
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for Retry-After on 429 responses', async () => {
+    const request = vi
+      .fn()
+      .mockResolvedValueOnce(createResult(429, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(createResult(200));
+
+    const result = await withRetry(request, { retry });
+
+    expect(result.response?.status).toBe(200);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up when Retry-After is longer than maxDelayMs', async () => {
+    const request = vi
+      .fn()
+      .mockResolvedValue(createResult(429, { 'Retry-After': '120' }));
+
+    const result = await withRetry(request, { retry });
+
+    expect(result.response?.status).toBe(429);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry network errors and rethrow the last one', async () => {
+    const request = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(withRetry(request, { retry })).rejects.toThrow('fetch failed');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should abort attempts that exceed the timeout', async () => {
+    const request = vi.fn(
+      (signal: AbortSignal | undefined) =>
+        new Promise<ReturnType<typeof createResult>>((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(signal.reason));
+        })
+    );
+
+    await expect(
+      withRetry(request, { retry: { ...retry, retries: 1 }, timeoutMs: 5 })
+    ).rejects.toMatchObject({ name: 'TimeoutError' });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop retrying when the caller signal is aborted', async () => {
+    const controller = new AbortController();
+    const request = vi.fn(() => {
+      controller.abort(new Error('Caller aborted'));
+      return Promise.reject(new TypeError('fetch failed'));
+    });
+
+    await expect(
+      withRetry(request, { retry }, controller.signal)
+    ).rejects.toThrow('fetch failed');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the caller signal to each attempt', async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockResolvedValue(createResult(200));
+
+    await withRetry(request, {}, controller.signal);
+
+    expect(request).toHaveBeenCalledWith(controller.signal);
+  });
+});
@@ -0,0 +1,85 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getSitemapPath, parseSitemap } from '../utils/sitemap';
+import { readSitemapFile } from '../utils/sitemap/fs';
+
+const urlset = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url>
+    <loc>https://example.com/</loc>
+    <lastmod>2025-01-01</lastmod>
+  </url>
+  <url><loc>https://example.com/blog?page=2&amp;sort=new</loc></url>
+  <url><loc><![CDATA[https://example.com/about]]></loc></url>
+</urlset>`;
+
+const sitemapIndex = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/sitemap-0.xml</loc></sitemap>
+  <sitemap><loc>https://example.com/sitemap.xml</loc></sitemap>
+</sitemapindex>`;
+
+describe('parseSitemap', () => {
+  it('should read page locations', () => {
+    expect(parseSitemap(urlset)).toEqual({
+      sitemaps: [],
+      urls: [
+        'https://example.com/',
+        'https://example.com/blog?page=2&sort=new',
+        'https://example.com/about',
+      ],
+    });
+  });
+
+  it('should read the sitemaps of a sitemap index', () => {
+    expect(parseSitemap(sitemapIndex)).toEqual({
+      sitemaps: [
+        'https://example.com/sitemap-0.xml',
+        'https://example.com/sitemap.xml',
+      ],
+      urls: [],
+    });
+  });
+
+  it('should convert locations to paths', () => {
+    expect(getSitemapPath('https://example.com/blog?page=2')).toBe(
+      '/blog?page=2'
+    );
+    expect(getSitemapPath('/about')).toBe('/about');
+  });
+});
+
+describe('readSitemapFile', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'generate-metadata-sitemap-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { force: true, recursive: true });
+  });
+
+  it('should read page paths from a sitemap', async () => {
+    await writeFile(join(directory, 'sitemap.xml'), urlset);
+
+    expect(await readSitemapFile(join(directory, 'sitemap.xml'))).toEqual([
+      '/',
+      '/blog?page=2&sort=new',
+      '/about',
+    ]);
+  });
+
+  it('should read the sitemaps of an index from the same directory', async () => {
+    await writeFile(join(directory, 'sitemap.xml'), sitemapIndex);
+    await writeFile(join(directory, 'sitemap-0.xml'), urlset);
+
+    expect(await readSitemapFile(join(directory, 'sitemap.xml'))).toEqual([
+      '/',
+      '/blog?page=2&sort=new',
+      '/about',
+    ]);
+  });
+});
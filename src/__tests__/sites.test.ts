@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeHostname, resolveSiteCredentials } from '../utils/sites';
+
+describe('normalizeHostname', () => {
+  it.each([
+    ['example.com', 'example.com'],
+    ['Example.COM:3000', 'example.com'],
+    ['example.com.', 'example.com'],
+    ['a.example.com, proxy.internal', 'a.example.com'],
+  ])('should normalize %s to %s', (host, expected) => {
+    expect(normalizeHostname(host)).toBe(expected);
+  });
+});
+
+describe('resolveSiteCredentials', () => {
+  it('should look up a map by normalized hostname', async () => {
+    const sites = { 'Brand-A.com': { apiKey: 'key-a', dsn: 'dsn-a' } };
+
+    expect(await resolveSiteCredentials(sites, 'brand-a.com:443')).toEqual({
+      apiKey: 'key-a',
+      dsn: 'dsn-a',
+    });
+    expect(await resolveSiteCredentials(sites, 'brand-b.com')).toBeUndefined();
+  });
+
+  it('should call a resolver with the normalized hostname', async () => {
+    const credentials = await resolveSiteCredentials(
+      (hostname) => Promise.resolve({ dsn: `dsn-for-${hostname}` }),
+      'Brand-A.com:3000'
+    );
+
+    expect(credentials).toEqual({ dsn: 'dsn-for-brand-a.com' });
+  });
+});
@@ -140,4 +140,95 @@ describe('TanstackStartApiClient', () => {
 
     expect(result).toEqual({});
   });
+
+  it('should pass the abort signal to the server function outside of data', async () => {
+    const mockServerFn = vi.fn().mockResolvedValue({
+      data: { metadata: {} },
+      error: undefined,
+    }) as any;
+
+    const apiClient = new TanstackStartApiClient(mockServerFn);
+    const controller = new AbortController();
+
+    const args = {
+      params: {
+        path: { dsn: 'test-dsn' },
+        query: { path: '/test' },
+      },
+    };
+
+    await apiClient.metadataGetLatest({ ...args, signal: controller.signal });
+
+    expect(mockServerFn).toHaveBeenCalledWith({
+      data: {
+        args,
+        type: 'metadataGetLatest',
+      },
+      signal: controller.signal,
+    });
+  });
+
+  it('should call serverFn with correct data structure for sitesGetSite', async () => {
+    const mockServerFn = vi.fn().mockResolvedValue({
+      data: { site: { name: 'Example', titleTemplate: '%s | Example' } },
+      error: undefined,
+    }) as any;
+
+    const apiClient = new TanstackStartApiClient(mockServerFn);
+
+    const args = {
+      params: {
+        path: { dsn: 'test-dsn' },
+      },
+    };
+
+    const result = await apiClient.sitesGetSite(args);
+
+    expect(mockServerFn).toHaveBeenCalledWith({
+      data: {
+        args,
+        type: 'sitesGetSite',
+      },
+    });
+    expect(result.data?.site.titleTemplate).toBe('%s | Example');
+  });
+
+  it('should call serverFn once per path for metadataGetMany', async () => {
+    const mockServerFn = vi.fn().mockResolvedValue({
+      data: { metadata: { title: 'Test Title' } },
+      error: undefined,
+    }) as any;
+
+    const apiClient = new TanstackStartApiClient(mockServerFn);
+
+    const result = await apiClient.metadataGetMany({
+      params: {
+        path: { dsn: 'test-dsn' },
+        query: { paths: ['/a', '/b'] },
+      },
+    });
+
+    expect(mockServerFn).toHaveBeenCalledTimes(2);
+    expect(mockServerFn).toHaveBeenCalledWith({
+      data: {
+        args: {
+          params: { path: { dsn: 'test-dsn' }, query: { path: '/b' } },
+        },
+        type: 'metadataGetLatest',
+      },
+    });
+    expect(result.results).toHaveLength(2);
+    expect(result.results[0]?.status).toBe('fulfilled');
+  });
+
+  it('should not register builds through the server function', async () => {
+    const mockServerFn = vi.fn() as any;
+
+    const apiClient = new TanstackStartApiClient(mockServerFn);
+
+    await expect(apiClient.sitesRegisterBuild()).rejects.toThrow(
+      'Builds cannot be registered through the server function'
+    );
+    expect(mockServerFn).not.toHaveBeenCalled();
+  });
 });
@@ -36,6 +36,15 @@ describe('TanStack Start Validator', () => {
       expect(() => validator(invalidData)).toThrow();
     });
 
+    it('should reject build registration', () => {
+      const invalidData = {
+        args: { body: { buildId: 'build-123', framework: 'tanstack-start' } },
+        type: 'sitesRegisterBuild',
+      };
+
+      expect(() => validator(invalidData)).toThrow();
+    });
+
     it('should throw error for missing type', () => {
       const invalidData = {
         args: {},
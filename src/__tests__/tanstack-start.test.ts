@@ -1,6 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { webhooks } from '../__generated__/api';
-import type { MetadataApiResponse } from '../index';
+import { type MetadataApiResponse, NotFoundError, type Site } from '../index';
 import { GenerateMetadataClient } from '../tanstack-start';
 import { FetchApiClient } from '../utils/api/fetch';
 
@@ -29,6 +29,8 @@ const validMetadataUpdateBody: webhooks['webhook']['post']['requestBody']['conte
 // Create a mock API client
 const mockApiClient = {
   GET: vi.fn(),
+  getSite: vi.fn(),
+  registerBuild: vi.fn(),
 };
 
 // Mock the FetchApiClient
@@ -37,6 +39,8 @@ vi.mock('../utils/api/fetch', () => ({
     metadataGetLatest: vi.fn((args) =>
       mockApiClient.GET('/v1/{dsn}/metadata/get-latest', args)
     ),
+    sitesGetSite: vi.fn((args) => mockApiClient.getSite(args)),
+    sitesRegisterBuild: vi.fn((args) => mockApiClient.registerBuild(args)),
   })),
 }));
 
@@ -103,11 +107,24 @@ const mockApiResponse: MetadataApiResponse = {
   },
 };
 
+const mockSite: Site = {
+  autoAcceptAiSuggestions: false,
+  autoScrapeEnabled: false,
+  hostname: 'example.com',
+  id: 'site-123',
+  name: 'Example',
+  titleTemplate: null,
+};
+
 describe('GenerateMetadataClient (TanStack Start)', () => {
   let client: GenerateMetadataClient;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(mockApiClient.getSite).mockResolvedValue({
+      data: { site: mockSite },
+      error: undefined,
+    });
     client = new GenerateMetadataClient({
       apiKey: 'test-api-key',
       dsn: 'test-dsn',
@@ -572,6 +589,35 @@ describe('GenerateMetadataClient (TanStack Start)', () => {
       expect(result).toEqual({});
     });
 
+    it('should use fallback when the latency budget is exceeded and cache the late result', async () => {
+      let resolveRequest: (value: unknown) => void = () => {};
+      vi.mocked(mockApiClient.GET).mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveRequest = resolve;
+        })
+      );
+
+      const result = await client.getHead({
+        ctx: mockCtx,
+        fallback: { meta: [{ title: 'Fallback Title' }] },
+        latencyBudgetMs: 10,
+        path: '/test',
+      });
+
+      expect(result).toEqual({ meta: [{ title: 'Fallback Title' }] });
+
+      resolveRequest({ data: mockApiResponse, error: undefined });
+      await vi.waitFor(async () => {
+        const cachedResult = await client.getHead({
+          ctx: mockCtx,
+          latencyBudgetMs: 10,
+          path: '/test',
+        });
+        expect(cachedResult.meta).toContainEqual({ title: 'Test Page Title' });
+      });
+      expect(mockApiClient.GET).toHaveBeenCalledTimes(1);
+    });
+
     it('should cache API responses', async () => {
       vi.mocked(mockApiClient.GET).mockResolvedValue({
         data: mockApiResponse,
@@ -2352,6 +2398,201 @@ describe('GenerateMetadataClient (TanStack Start)', () => {
     });
   });
 
+  describe('site title template', () => {
+    it('should apply the title template to the title tags', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      vi.mocked(mockApiClient.getSite).mockResolvedValue({
+        data: { site: { ...mockSite, titleTemplate: '%s | Example' } },
+        error: undefined,
+      });
+
+      const result = await client.getHead({ ctx: mockCtx, path: '/test' });
+
+      expect(result.meta).toContainEqual({
+        title: 'Test Page Title | Example',
+      });
+      expect(result.meta).toContainEqual({
+        content: 'Test Page Title | Example',
+        name: 'title',
+      });
+      expect(result.meta).toContainEqual({
+        content: 'OG Test Title',
+        property: 'og:title',
+      });
+    });
+  });
+
+  describe('multi-site', () => {
+    it('should pick the site by the request URL', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      client = new GenerateMetadataClient({
+        dsn: 'default-dsn',
+        sites: { 'brand-a.com': { apiKey: 'key-a', dsn: 'dsn-a' } },
+      });
+
+      await client.getHead({
+        ctx: mockCtx,
+        path: '/test',
+        request: new Request('https://brand-a.com/test'),
+      });
+
+      expect(mockApiClient.GET).toHaveBeenCalledWith(
+        '/v1/{dsn}/metadata/get-latest',
+        expect.objectContaining({
+          headers: { Authorization: 'Bearer key-a' },
+          params: { path: { dsn: 'dsn-a' }, query: { path: '/test' } },
+        })
+      );
+    });
+
+    it('should sign server function requests with the key of the site', async () => {
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: mockApiResponse,
+        error: undefined,
+      });
+      const sites = {
+        'brand-a.com': { apiKey: 'key-a', dsn: 'dsn-a' },
+        'brand-b.com': { apiKey: 'key-b', dsn: 'dsn-b' },
+      };
+      const serverFn = vi.fn((opts: { data: unknown }) =>
+        GenerateMetadataClient.serverFnHandler(
+          { data: GenerateMetadataClient.serverFnValidator(opts.data) } as any,
+          { apiKey: 'default-key', sites }
+        )
+      );
+      client = new GenerateMetadataClient({
+        dsn: 'default-dsn',
+        serverFn: serverFn as any,
+        sites: {
+          'brand-a.com': { dsn: 'dsn-a' },
+          'brand-b.com': { dsn: 'dsn-b' },
+        },
+      });
+
+      await client.getHead({
+        ctx: mockCtx,
+        path: '/test',
+        request: new Request('https://brand-b.com/test'),
+      });
+      await client.getHead({ ctx: mockCtx, path: '/other' });
+
+      expect(mockApiClient.GET).toHaveBeenCalledWith(
+        '/v1/{dsn}/metadata/get-latest',
+        expect.objectContaining({
+          headers: { Authorization: 'Bearer key-b' },
+          params: { path: { dsn: 'dsn-b' }, query: { path: '/test' } },
+        })
+      );
+      expect(mockApiClient.GET).toHaveBeenCalledWith(
+        '/v1/{dsn}/metadata/get-latest',
+        expect.objectContaining({
+          headers: { Authorization: 'Bearer default-key' },
+          params: { path: { dsn: 'default-dsn' }, query: { path: '/other' } },
+        })
+      );
+    });
+
+    it('should look up the key of a DSN with a function', async () => {
+      vi.mocked(mockApiClient.getSite).mockResolvedValue({
+        data: { site: mockSite },
+        error: undefined,
+      });
+
+      await GenerateMetadataClient.serverFnHandler(
+        {
+          data: {
+            args: { params: { path: { dsn: 'dsn-a' } } },
+            type: 'sitesGetSite',
+          },
+        } as any,
+        {
+          apiKey: 'default-key',
+          sites: (dsn) => (dsn === 'dsn-a' ? 'key-a' : undefined),
+        }
+      );
+
+      expect(mockApiClient.getSite).toHaveBeenCalledWith({
+        headers: { Authorization: 'Bearer key-a' },
+        params: { path: { dsn: 'dsn-a' } },
+      });
+    });
+  });
+
+  describe('strict mode', () => {
+    it('should throw typed errors from getHead', async () => {
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        dsn: 'test-dsn',
+        strict: true,
+      });
+      vi.mocked(mockApiClient.GET).mockResolvedValue({
+        data: undefined,
+        error: { message: 'Not found' },
+        status: 404,
+      });
+
+      await expect(
+        client.getHead({ ctx: mockCtx, path: '/test' })
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('lifecycle hooks', () => {
+    it('should report fallback use from getHead', async () => {
+      const onFallbackUsed = vi.fn();
+      client = new GenerateMetadataClient({
+        apiKey: 'test-api-key',
+        dsn: 'test-dsn',
+        on: { onFallbackUsed },
+      });
+      vi.mocked(mockApiClient.GET).mockRejectedValue(new Error('API down'));
+
+      await client.getHead({
+        ctx: mockCtx,
+        fallback: { meta: [{ title: 'Fallback Title' }] },
+        path: '/test/',
+      });
+
+      expect(onFallbackUsed).toHaveBeenCalledWith({
+        dsn: 'test-dsn',
+        error: undefined,
+        path: '/test',
+      });
+    });
+  });
+
+  describe('vitePlugin', () => {
+    it('should register the build once across environments', async () => {
+      vi.mocked(mockApiClient.registerBuild).mockResolvedValue({
+        data: { message: 'ok', success: true },
+        error: undefined,
+      });
+
+      const plugin = client.vitePlugin({ buildId: () => 'build-123' });
+
+      expect(plugin).toMatchObject({
+        apply: 'build',
+        name: 'generate-metadata',
+      });
+
+      await plugin.closeBundle();
+      await plugin.closeBundle();
+
+      expect(mockApiClient.registerBuild).toHaveBeenCalledTimes(1);
+      expect(mockApiClient.registerBuild).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: { buildId: 'build-123', framework: 'tanstack-start' },
+        })
+      );
+    });
+  });
+
   describe('serverFnHandler static method', () => {
     it('should handle metadataGetLatest type correctly', async () => {
       // Mock the FetchApiClient for serverFnHandler
@@ -2399,6 +2640,121 @@ describe('GenerateMetadataClient (TanStack Start)', () => {
       });
     });
 
+    it('should pass connection options to the FetchApiClient', async () => {
+      const mockFetchApiClient = {
+        metadataGetLatest: vi.fn().mockResolvedValue({
+          data: mockApiResponse,
+          error: undefined,
+        }),
+      };
+      vi.mocked(FetchApiClient).mockImplementation(
+        () => mockFetchApiClient as any
+      );
+      const customFetch = vi.fn();
+
+      await GenerateMetadataClient.serverFnHandler(
+        {
+          data: {
+            args: {
+              params: {
+                path: { dsn: 'test-dsn' },
+                query: { path: '/test' },
+              },
+            },
+            type: 'metadataGetLatest',
+          },
+        } as any,
+        {
+          apiKey: 'test-api-key',
+          baseUrl: 'https://staging.example.com/api/openapi',
+          fetch: customFetch,
+          headers: { 'x-proxy-token': 'secret' },
+        }
+      );
+
+      expect(FetchApiClient).toHaveBeenLastCalledWith({
+        baseUrl: 'https://staging.example.com/api/openapi',
+        fetch: customFetch,
+        headers: { 'x-proxy-token': 'secret' },
+      });
+    });
+
+    it('should keep the status of failed responses', async () => {
+      const mockFetchApiClient = {
+        metadataGetLatest: vi.fn().mockResolvedValue({
+          data: undefined,
+          error: { message: 'Unauthorized' },
+          response: new Response(null, { status: 401 }),
+        }),
+      };
+      vi.mocked(FetchApiClient).mockImplementation(
+        () => mockFetchApiClient as any
+      );
+
+      const result = await GenerateMetadataClient.serverFnHandler(
+        {
+          data: {
+            args: {
+              params: {
+                path: { dsn: 'test-dsn' },
+                query: { path: '/test' },
+              },
+            },
+            type: 'metadataGetLatest',
+          },
+        } as any,
+        { apiKey: 'bad-key' }
+      );
+
+      expect(result).toEqual({
+        data: undefined,
+        error: { message: 'Unauthorized' },
+        status: 401,
+      });
+    });
+
+    it('should handle sitesGetSite type correctly', async () => {
+      const mockFetchApiClient = {
+        sitesGetSite: vi.fn().mockResolvedValue({
+          data: { site: mockSite },
+          error: undefined,
+          response: new Response(),
+        }),
+      };
+
+      vi.mocked(FetchApiClient).mockImplementation(
+        () => mockFetchApiClient as any
+      );
+
+      const ctx = {
+        data: {
+          args: {
+            params: {
+              path: { dsn: 'test-dsn' },
+            },
+          },
+          type: 'sitesGetSite' as const,
+        },
+      };
+
+      const result = await GenerateMetadataClient.serverFnHandler(ctx as any, {
+        apiKey: 'test-api-key',
+      });
+
+      expect(result).toEqual({
+        data: { site: mockSite },
+        error: undefined,
+      });
+      expect(mockFetchApiClient.sitesGetSite).toHaveBeenCalledWith({
+        headers: {
+          Authorization: 'Bearer test-api-key',
+        },
+        params: {
+          path: { dsn: 'test-dsn' },
+        },
+      });
+    });
+
     it('should throw error for unknown type', async () => {
       const ctx = {
         data: {
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  getTraceparent,
+  type Span,
+  type Tracer,
+  trace,
+} from '../utils/tracing';
+
+function createFakeSpan(): Span {
+  return {
+    end: vi.fn(),
+    recordException: vi.fn(),
+    setAttribute: vi.fn(),
+    setStatus: vi.fn(),
+    spanContext: () => ({
+      spanId: '00f067aa0ba902b7',
+      traceFlags: 1,
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    }),
+  };
+}
+
+function createFakeTracer(span: Span): Tracer {
+  return {
+    startActiveSpan: vi.fn(
+      (_name: string, _options: unknown, fn: (active: Span) => unknown) =>
+        fn(span)
+    ) as Tracer['startActiveSpan'],
+  };
+}
+
+describe('trace', () => {
+  it('should run without a span when no tracer is configured', () => {
+    const fn = vi.fn(() => 'result');
+
+    expect(trace(undefined, 'test', {}, fn)).toBe('result');
+    expect(fn).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should start a span with attributes and end it', () => {
+    const span = createFakeSpan();
+    const tracer = createFakeTracer(span);
+
+    const result = trace(tracer, 'test', { path: '/test' }, () => 'result');
+
+    expect(result).toBe('result');
+    expect(tracer.startActiveSpan).toHaveBeenCalledWith(
+      'test',
+      { attributes: { path: '/test' } },
+      expect.any(Function)
+    );
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should end the span once a promise settles', async () => {
+    const span = createFakeSpan();
+    let resolve: (value: string) => void = () => {};
+
+    const result = trace(
+      createFakeTracer(span),
+      'test',
+      {},
+      () =>
+        new Promise<string>((r) => {
+          resolve = r;
+        })
+    );
+
+    expect(span.end).not.toHaveBeenCalled();
+    resolve('result');
+    await expect(result).resolves.toBe('result');
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record errors on the span', async () => {
+    const span = createFakeSpan();
+    const error = new Error('API down');
+
+    await expect(
+      trace(createFakeTracer(span), 'test', {}, () => Promise.reject(error))
+    ).rejects.toBe(error);
+
+    expect(span.recordException).toHaveBeenCalledWith(error);
+    expect(span.setStatus).toHaveBeenCalledWith({
+      code: 2,
+      message: 'API down',
+    });
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getTraceparent', () => {
+  it('should build a W3C traceparent header from the span context', () => {
+    expect(getTraceparent(createFakeSpan())).toBe(
+      '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+    );
+  });
+
+  it('should return undefined without a span', () => {
+    expect(getTraceparent(undefined)).toBeUndefined();
+  });
+});
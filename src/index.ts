@@ -2,142 +2,2112 @@ import { type Context, Hono } from 'hono';
 import { logger } from 'hono/logger';
 import { validator } from 'hono/validator';
 import type { operations, webhooks } from './__generated__/api';
-import type { BaseApiClient } from './utils/api';
-import { FetchApiClient } from './utils/api/fetch';
+import { abortable, withTimeout } from './utils/abort';
+import type { BaseApiClient, MetadataGetLatestResponse } from './utils/api';
+import { FetchApiClient, type FetchApiClientOptions } from './utils/api/fetch';
+import type { RetryOptions } from './utils/api/retry';
+import {
+  type CachedMetadata,
+  type CacheScope,
+  getCacheEntryState,
+  getCacheKey,
+  getCachePartition,
+  type MetadataCacheEntry,
+  type MetadataCacheOptions,
+  type MetadataCacheStore,
+  type MetadataSnapshotOptions,
+  parseCacheKey,
+} from './utils/cache';
+import type { LruCacheStats } from './utils/cache/lru';
+import { MemoryCacheStore } from './utils/cache/memory';
+import {
+  CircuitBreaker,
+  CircuitBreakerOpenError,
+  type CircuitBreakerOptions,
+} from './utils/circuit-breaker';
+import { mapWithConcurrency } from './utils/concurrency';
 import { verifyHmacSignature } from './utils/crypto';
-import createDebug, { type DebugFunction } from './utils/debug';
-import { normalizePathname } from './utils/normalize-pathname';
+import createDebug, {
+  type DebugFunction,
+  type Logger,
+  type LogLevel,
+} from './utils/debug';
+import {
+  createResponseError,
+  GenerateMetadataAuthError,
+  GenerateMetadataError,
+  NotFoundError,
+  TimeoutError,
+  toGenerateMetadataError,
+} from './utils/errors';
+import type { MetadataHookEvent, MetadataHooks } from './utils/hooks';
+import {
+  isMetadataManifest,
+  type MetadataManifest,
+  manifestVersion,
+} from './utils/manifest';
+import {
+  type MetadataClientStats,
+  MetricsRecorder,
+  type MetricsSink,
+} from './utils/metrics';
+import {
+  normalizePathname,
+  type QueryPolicy,
+} from './utils/normalize-pathname';
+import { isPathPattern, matchPathPattern } from './utils/path-pattern';
+import {
+  apiProvider,
+  isApiProvider,
+  type MetadataProvider,
+  mergeProviderResults,
+} from './utils/providers';
+import {
+  getRouteManifestPaths,
+  type RouteManifest,
+} from './utils/route-manifest';
+import { fetchSitemap } from './utils/sitemap';
+import {
+  resolveSiteCredentials,
+  type SiteCredentials,
+  type SitesOption,
+} from './utils/sites';
+import {
+  getTraceparent,
+  type Span,
+  spanAttributes,
+  type Tracer,
+  trace,
+} from './utils/tracing';
 
 // Extract the metadata response type from the generated API types
 export type MetadataApiResponse =
   operations['v1.metadata.getLatest']['responses']['200']['content']['application/json'];
 
+export type SiteApiResponse =
+  operations['v1.sites.getSite']['responses']['200']['content']['application/json'];
+export type Site = SiteApiResponse['site'];
+
+export type { RetryOptions } from './utils/api/retry';
+export type {
+  CachedMetadata,
+  CacheScope,
+  MetadataCacheEntry,
+  MetadataCacheOptions,
+  MetadataCacheStore,
+  MetadataSnapshotOptions,
+} from './utils/cache';
+export type {
+  KeyValueCacheStoreOptions,
+  KeyValueClient,
+} from './utils/cache/key-value';
+// biome-ignore lint/performance/noBarrelFile: public entry point
+export { KeyValueCacheStore } from './utils/cache/key-value';
+export type { LruCacheStats } from './utils/cache/lru';
+export { MemoryCacheStore } from './utils/cache/memory';
+export type {
+  CircuitBreakerOptions,
+  CircuitBreakerState,
+  CircuitBreakerStateChange,
+} from './utils/circuit-breaker';
+export type { Logger, LogLevel } from './utils/debug';
+export {
+  GenerateMetadataAuthError,
+  GenerateMetadataError,
+  InvalidResponseError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+} from './utils/errors';
+export type {
+  CacheHitEvent,
+  CacheMissEvent,
+  FallbackUsedEvent,
+  FetchErrorEvent,
+  FetchStartEvent,
+  FetchSuccessEvent,
+  MetadataHooks,
+  RevalidateEvent,
+  WebhookReceivedEvent,
+} from './utils/hooks';
+export type { MetadataManifest } from './utils/manifest';
+export type {
+  MetadataClientStats,
+  MetricLabels,
+  MetricsSink,
+  PrometheusOptions,
+} from './utils/metrics';
+export { formatPrometheusMetrics } from './utils/metrics';
+export type { QueryPolicy } from './utils/normalize-pathname';
+export type {
+  MetadataProvider,
+  MetadataProviderContext,
+} from './utils/providers';
+export { apiProvider } from './utils/providers';
+export { staticProvider } from './utils/providers/static';
+export type { RouteManifest } from './utils/route-manifest';
+export type { ParsedSitemap } from './utils/sitemap';
+export { parseSitemap } from './utils/sitemap';
+export type { SiteCredentials, SitesOption } from './utils/sites';
+export type {
+  Span,
+  SpanAttributes,
+  SpanAttributeValue,
+  Tracer,
+} from './utils/tracing';
+
 export type GenerateMetadataOptions = {
   path: string;
+  /**
+   * Fetch the metadata of this site instead of the client's `dsn`
+   */
+  dsn?: string;
   apiKey?: string;
+  /**
+   * Hostname of the request, used to pick the site when the client has
+   * `sites`. Detected from the request when omitted.
+   */
+  hostname?: string;
+  /**
+   * Stop waiting for metadata and use the fallback once aborted
+   * The API request is cancelled too, unless other renders are waiting for
+   * the same path
+   */
+  signal?: AbortSignal;
+  /**
+   * Use the fallback if the API has not answered within this many
+   * milliseconds. The API request keeps running and fills the cache, so
+   * later renders get the generated metadata.
+   */
+  latencyBudgetMs?: number;
+};
+
+// The credentials a site is fetched with, and the partition they map to
+type SiteScope = {
+  dsn: string;
+  apiKey: string | undefined;
+  partition: string;
+};
+
+// A shared API request, cancelled once every caller waiting for it aborts
+type InFlightRequest = {
+  request: Promise<MetadataApiResponse>;
+  controller: AbortController | undefined;
+  waiting: number;
+};
+
+type WebhookResponse = {
+  200: webhooks['webhook']['post']['responses']['200']['content']['application/json'];
+  401: webhooks['webhook']['post']['responses']['401']['content']['application/json'];
+  500: webhooks['webhook']['post']['responses']['500']['content']['application/json'];
+};
+
+export type GenerateMetadataClientBaseOptions = {
+  dsn: string | undefined;
+  apiKey?: string | undefined;
+  /**
+   * Log what the client is doing. `true` logs everything; a level logs only
+   * messages at that level and above. API keys are always redacted.
+   */
+  debug?: boolean | LogLevel;
+  /**
+   * Where log messages are written, e.g. a pino logger. Defaults to the
+   * console. When set without `debug`, warnings and errors are logged.
+   */
+  logger?: Logger;
+  cache?: MetadataCacheOptions;
+  /**
+   * Base URL of the generate-metadata API, e.g. a staging API or a proxy
+   * Defaults to the production API
+   */
+  baseUrl?: string;
+  /**
+   * Custom `fetch` implementation, e.g. for instrumentation or tests
+   */
+  fetch?: FetchApiClientOptions['fetch'];
+  /**
+   * Headers sent with every API request
+   */
+  headers?: Record<string, string>;
+  /**
+   * Timeout for each API request attempt, in milliseconds
+   */
+  timeoutMs?: number;
+  /**
+   * Retry API requests that fail with a 5xx, a 429 or a network error
+   */
+  retry?: RetryOptions;
+  /**
+   * Skip the API for a cooldown period after consecutive failures, serving
+   * last-known-good cached metadata or the fallback instead
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Persist successful responses and serve them when the API fails, so
+   * fresh instances still have metadata during outages
+   */
+  snapshot?: MetadataSnapshotOptions;
+  /**
+   * Callbacks for cache, API, fallback and webhook events, e.g. to emit
+   * your own logs and metrics
+   */
+  on?: MetadataHooks;
+  /**
+   * Tracer used to wrap metadata fetches, conversion and webhooks in spans,
+   * e.g. `trace.getTracer('generate-metadata')` from `@opentelemetry/api`
+   */
+  tracer?: Tracer;
+  /**
+   * Sink that cache, API and fallback metrics are recorded into, e.g. an
+   * adapter for prom-client or StatsD. `client.getStats()` works without one.
+   */
+  metrics?: MetricsSink;
+  /**
+   * Throw typed errors from `getMetadata`/`getHead` when metadata cannot be
+   * fetched, instead of using the fallback. Useful in CI and staging.
+   */
+  strict?: boolean;
+  /**
+   * Metadata generated at build time by `client.prefetch()`
+   * When provided, it stands in for `apiProvider()` and the API is never
+   * called, so builds are reproducible. Other providers still apply.
+   * A manifest with an unsupported version is ignored, and so is one
+   * generated for another DSN when fetching that DSN's metadata
+   * Typed as `unknown` so an imported JSON file can be passed in as is. It is
+   * validated when the client is created instead.
+   */
+  manifest?: unknown;
+  /**
+   * Which query parameters are part of a page's path, and so of its cache
+   * key and API record. Tracking parameters such as `utm_*` are always removed.
+   * @default 'drop'
+   */
+  query?: QueryPolicy;
+  /**
+   * Where metadata comes from, e.g. `fileProvider('./metadata')` from
+   * `generate-metadata/node` for offline development. Pass several to chain
+   * them: results are deep-merged, with earlier providers taking precedence.
+   * Include `apiProvider()` to use the API in a chain.
+   * @default apiProvider()
+   */
+  provider?: MetadataProvider | MetadataProvider[];
+  /**
+   * Serve several sites from one client, picking the DSN and API key by the
+   * hostname of each request. Requests for other hostnames use `dsn`.
+   */
+  sites?: SitesOption;
+};
+
+export type PrefetchOptions = {
+  /**
+   * Maximum number of API requests in flight at once
+   * @default 8
+   */
+  concurrency?: number;
+};
+
+export type GetManyMetadataOptions = PrefetchOptions &
+  Pick<GenerateMetadataOptions, 'apiKey' | 'dsn'>;
+
+/**
+ * Metadata for one path of a batch, or the error that prevented fetching it
+ */
+export type GetManyMetadataResult =
+  | { path: string; metadata: MetadataApiResponse; error?: never }
+  | { path: string; metadata?: never; error: GenerateMetadataError };
+
+export type WarmOptions = GetManyMetadataOptions & {
+  /**
+   * Paths to warm, e.g. from `readSitemapFile()` in `generate-metadata/node`
+   */
+  paths?: string[];
+  /**
+   * `http(s)` URL of a sitemap whose pages are warmed. Sitemaps listed by a
+   * sitemap index are fetched too. Read a local sitemap with
+   * `readSitemapFile()` from `generate-metadata/node` and pass it as `paths`.
+   */
+  sitemap?: string | URL;
+  /**
+   * Routes of a framework build whose pages are warmed
+   */
+  routeManifest?: RouteManifest;
+  /**
+   * Called after each path has been warmed or has failed
+   */
+  onProgress?: (progress: WarmProgress) => void;
+};
+
+export type WarmProgress = {
+  completed: number;
+  total: number;
+  result: GetManyMetadataResult;
+};
+
+export type WarmResult = {
+  total: number;
+  warmed: number;
+  failed: { path: string; error: GenerateMetadataError }[];
 };
 
-type WebhookResponse = {
-  200: webhooks['webhook']['post']['responses']['200']['content']['application/json'];
-  401: webhooks['webhook']['post']['responses']['401']['content']['application/json'];
-  500: webhooks['webhook']['post']['responses']['500']['content']['application/json'];
-};
+const defaultPrefetchConcurrency = 8;
+
+// Failed site requests are not retried for this long, so renders during an
+// outage do not each wait for the API
+const siteFailureTtlMs = 30_000;
+
+// Renders without a latency budget wait this long for a site that is not
+// cached. The request keeps running and fills the cache for later renders.
+const defaultSiteLatencyBudgetMs = 1000;
+
+function getLogLevel(debug: boolean | LogLevel): LogLevel {
+  if (typeof debug === 'string') {
+    return debug;
+  }
+  return debug ? 'debug' : 'warn';
+}
+
+const bearerTokenRegex = /^Bearer (.+)$/;
+const httpUrlRegex = /^https?:\/\//i;
+
+// Cache keys keep the query string, which prefixes and patterns ignore
+function getPathnameOf(normalizedPath: string): string {
+  const queryStart = normalizedPath.indexOf('?');
+  return queryStart === -1
+    ? normalizedPath
+    : normalizedPath.slice(0, queryStart);
+}
+
+export abstract class GenerateMetadataClientBase {
+  protected dsn: string | undefined;
+  protected apiKey: string | undefined;
+  protected debug: DebugFunction;
+  protected cache: {
+    latestMetadata: MetadataCacheStore;
+  };
+  protected cacheOptions: MetadataCacheOptions;
+  protected snapshotOptions: MetadataSnapshotOptions | undefined;
+  protected manifest: MetadataManifest | undefined;
+  protected queryPolicy: QueryPolicy;
+  protected providers: MetadataProvider[];
+  protected strict: boolean;
+  protected hooks: MetadataHooks;
+  protected tracer: Tracer | undefined;
+  protected api: BaseApiClient;
+  private readonly metrics: MetricsRecorder;
+  private readonly circuitBreaker: CircuitBreaker | undefined;
+  private readonly customFetch: FetchApiClientOptions['fetch'];
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  // Partitions by DSN and API key, so a path can be cleared from each one
+  private readonly partitions = new Map<
+    string,
+    Map<string | undefined, Promise<string>>
+  >();
+  protected sites: SitesOption | undefined;
+  // Sites are partitioned like metadata, by DSN and API key
+  private readonly siteEntries = new Map<
+    string,
+    { value: Site; storedAt: number }
+  >();
+  private readonly siteRequests = new Map<string, Promise<Site>>();
+  private readonly siteFailures = new Map<string, number>();
+
+  constructor(props: GenerateMetadataClientBaseOptions) {
+    const {
+      dsn,
+      apiKey,
+      debug = false,
+      logger: customLogger,
+      cache: cacheOptions = {},
+      baseUrl,
+      fetch,
+      headers,
+      timeoutMs,
+      retry,
+      circuitBreaker,
+      snapshot,
+      manifest,
+      query = 'drop',
+      provider = apiProvider(),
+      sites,
+      strict = false,
+      on = {},
+      tracer,
+      metrics,
+    } = props;
+
+    this.dsn = dsn;
+    this.apiKey = apiKey;
+    this.debug = createDebug('generate-metadata', {
+      enabled: debug !== false || customLogger !== undefined,
+      level: getLogLevel(debug),
+      logger: customLogger,
+      secrets: [
+        apiKey,
+        ...(sites && typeof sites !== 'function'
+          ? Object.values(sites).map((site) => site.apiKey)
+          : []),
+      ],
+    });
+    this.cache = {
+      latestMetadata: cacheOptions.store ?? new MemoryCacheStore(cacheOptions),
+    };
+    this.cacheOptions = cacheOptions;
+    this.snapshotOptions = snapshot;
+    this.manifest = isMetadataManifest(manifest) ? manifest : undefined;
+    this.queryPolicy = query;
+    this.providers = [provider].flat();
+    this.sites = sites;
+    this.strict = strict;
+    this.hooks = on;
+    this.tracer = tracer;
+    this.metrics = new MetricsRecorder(metrics);
+    this.api = new FetchApiClient({
+      baseUrl,
+      fetch,
+      headers,
+      retry,
+      timeoutMs,
+    });
+    this.customFetch = fetch;
+    this.circuitBreaker = circuitBreaker
+      ? new CircuitBreaker(circuitBreaker)
+      : undefined;
+
+    if (manifest !== undefined && !this.manifest) {
+      this.debug.warn(
+        'Ignoring metadata manifest that is invalid or not version',
+        manifestVersion
+      );
+    } else if (
+      this.manifest &&
+      dsn !== undefined &&
+      this.manifest.dsn !== dsn
+    ) {
+      this.debug.warn(
+        'Metadata manifest was generated for another DSN:',
+        this.manifest.dsn
+      );
+    }
+
+    this.debug(
+      'Initialized client with DSN:',
+      dsn,
+      'API key:',
+      apiKey ? 'provided' : 'not provided'
+    );
+  }
+  protected abstract getFrameworkName(): 'next' | 'tanstack-start';
+
+  /**
+   * Get the size of the metadata cache and how many entries have been evicted
+   * Returns `undefined` when the cache store does not report stats
+   */
+  public getCacheStats(): LruCacheStats | undefined {
+    return this.cache.latestMetadata.getStats?.();
+  }
+
+  /**
+   * Get cache hit ratio, API error rate and latency percentiles for this
+   * client, e.g. to serve with `formatPrometheusMetrics()`
+   */
+  public getStats(): MetadataClientStats {
+    return this.metrics.getStats(this.getCacheStats());
+  }
+
+  /**
+   * Tell the dashboard which build is live so metadata revisions can be
+   * correlated with releases
+   * Failures are logged rather than thrown so they never break a build
+   * @param buildId - The framework's build ID
+   * @returns Whether the build was registered
+   */
+  public async registerBuild(buildId: string): Promise<boolean> {
+    if (this.dsn === undefined) {
+      this.debug('DSN is undefined, skipping build registration');
+      return false;
+    }
+
+    try {
+      const res = await this.api.sitesRegisterBuild({
+        body: {
+          buildId,
+          framework: this.getFrameworkName(),
+        },
+        params: {
+          path: {
+            dsn: this.dsn,
+          },
+        },
+        ...(this.apiKey && {
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+          },
+        }),
+      });
+
+      if (!res.data?.success) {
+        this.debug.warn('Failed to register build:', buildId, res.error);
+        return false;
+      }
+
+      this.debug.info('Registered build:', buildId);
+      return true;
+    } catch (err) {
+      this.debug.warn('Failed to register build:', buildId, 'Error:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Record metrics for an event and call its lifecycle hook without letting
+   * either break rendering
+   */
+  protected emit<Name extends keyof MetadataHooks>(
+    name: Name,
+    event: MetadataHookEvent<Name>
+  ): void {
+    try {
+      this.metrics.record(name, event);
+    } catch (err) {
+      this.debug.warn('Metrics sink failed for', name, 'Error:', err);
+    }
+
+    const hook = this.hooks[name] as
+      | ((payload: MetadataHookEvent<Name>) => void | Promise<void>)
+      | undefined;
+
+    try {
+      hook?.(event)?.catch((err: unknown) => {
+        this.debug.warn('Hook', name, 'failed:', err);
+      });
+    } catch (err) {
+      this.debug.warn('Hook', name, 'failed:', err);
+    }
+  }
+
+  /**
+   * Normalize a path using the client's query policy
+   */
+  protected normalizePath(path: string): string;
+  protected normalizePath(path: string | null): string | null;
+  protected normalizePath(path: string | null): string | null {
+    return normalizePathname(path, { query: this.queryPolicy });
+  }
+
+  /**
+   * Fetch metadata for every path in one pass, e.g. at build time
+   * Write the result with `writeMetadataManifest` from `generate-metadata/node`
+   * and pass it back as the `manifest` option to serve it without the API
+   * @param paths - The paths to fetch metadata for
+   * @returns A manifest with the metadata for every path
+   */
+  public async prefetch(
+    paths: string[],
+    options: PrefetchOptions = {}
+  ): Promise<MetadataManifest> {
+    const { dsn } = this;
+    if (dsn === undefined) {
+      throw new Error('A DSN is required to prefetch metadata');
+    }
+
+    const normalizedPaths = [
+      ...new Set(paths.map((path) => this.normalizePath(path))),
+    ];
+    this.debug('Prefetching metadata for', normalizedPaths.length, 'paths');
+
+    const failures: string[] = [];
+    const results = await mapWithConcurrency(
+      normalizedPaths,
+      options.concurrency ?? defaultPrefetchConcurrency,
+      async (normalizedPath) => {
+        try {
+          return await this.requestMetadata(dsn, normalizedPath, this.apiKey);
+        } catch (err) {
+          this.debug.warn(
+            'Failed to prefetch metadata for path:',
+            normalizedPath
+          );
+          failures.push(`${normalizedPath}: ${String(err)}`);
+          return null;
+        }
+      }
+    );
+
+    let site: Site | undefined;
+    try {
+      site = await this.requestSite(await this.getSiteScope(dsn, this.apiKey));
+    } catch (err) {
+      this.debug.warn('Failed to prefetch site');
+      failures.push(`site: ${String(err)}`);
+    }
+
+    if (failures.length > 0) {
+      throw new Error(
+        `Failed to prefetch metadata for ${failures.length} path(s):\n${failures.join('\n')}`
+      );
+    }
+
+    return {
+      dsn,
+      entries: Object.fromEntries(
+        normalizedPaths.map((normalizedPath, index) => [
+          normalizedPath,
+          results[index] as MetadataApiResponse,
+        ])
+      ),
+      generatedAt: new Date().toISOString(),
+      site,
+      version: manifestVersion,
+    };
+  }
+
+  /**
+   * Fetch metadata for many paths at once, e.g. for a listing page
+   * Fresh cached entries are reused and the rest are fetched in one batch,
+   * then cached for later renders
+   * @param paths - The paths to fetch metadata for
+   * @returns One result per normalized path, in order, holding either the
+   * metadata or the error for that path
+   */
+  public async getManyMetadata(
+    paths: string[],
+    options: GetManyMetadataOptions = {}
+  ): Promise<GetManyMetadataResult[]> {
+    const dsn = options.dsn ?? this.dsn;
+    const normalizedPaths = [
+      ...new Set(paths.map((path) => this.normalizePath(path))),
+    ];
+
+    let fromApi = new Map<string, GetManyMetadataResult>();
+    const manifest = this.getManifest(dsn);
+    if (manifest) {
+      fromApi = this.readManyFromManifest(manifest, normalizedPaths);
+    } else if (this.providers.some(isApiProvider)) {
+      // Other providers work offline, only the API needs a DSN
+      if (dsn === undefined) {
+        throw new GenerateMetadataError('A DSN is required to fetch metadata');
+      }
+      fromApi = await this.resolveManyFromApi(
+        dsn,
+        normalizedPaths,
+        options.apiKey ?? this.apiKey,
+        options.concurrency ?? defaultPrefetchConcurrency
+      );
+    }
+
+    return Promise.all(
+      normalizedPaths.map((normalizedPath) =>
+        this.mergeBatchResult(normalizedPath, fromApi.get(normalizedPath))
+      )
+    );
+  }
+
+  /**
+   * Load metadata into the cache, e.g. on startup so the first visitor to
+   * each page does not wait for the API
+   * Failures are reported rather than thrown so startup never fails on them
+   * @returns How many paths were warmed and which failed
+   */
+  public async warm(options: WarmOptions): Promise<WarmResult> {
+    const result: WarmResult = { failed: [], total: 0, warmed: 0 };
+    const dsn = options.dsn ?? this.dsn;
+    if (
+      dsn === undefined ||
+      this.getManifest(dsn) ||
+      !this.providers.some(isApiProvider)
+    ) {
+      this.debug('Nothing to warm without the API, skipping cache warmup');
+      return result;
+    }
+
+    const paths = [
+      ...new Set(
+        (await this.getWarmPaths(options, result)).map((path) =>
+          this.normalizePath(path)
+        )
+      ),
+    ];
+    result.total = paths.length;
+    this.debug.info('Warming the cache for', paths.length, 'paths');
+
+    // Each worker picks up the next path as soon as its last one is done, so
+    // one slow path does not hold up the others
+    const apiKey = options.apiKey ?? this.apiKey;
+    let completed = 0;
+    await mapWithConcurrency(
+      paths,
+      options.concurrency ?? defaultPrefetchConcurrency,
+      async (path) => {
+        const fetched = await this.resolveManyFromApi(dsn, [path], apiKey, 1);
+        const item = fetched.get(path) as GetManyMetadataResult;
+        completed++;
+        if (item.error) {
+          result.failed.push({ error: item.error, path: item.path });
+        } else {
+          result.warmed++;
+        }
+        options.onProgress?.({ completed, result: item, total: paths.length });
+      }
+    );
+
+    this.debug.info(
+      'Warmed the cache for',
+      result.warmed,
+      'of',
+      result.total,
+      'paths'
+    );
+    return result;
+  }
+
+  // A sitemap that cannot be read is reported as failed, like a path
+  private async getWarmPaths(
+    options: WarmOptions,
+    result: WarmResult
+  ): Promise<string[]> {
+    const paths = [...(options.paths ?? [])];
+
+    if (options.sitemap) {
+      try {
+        paths.push(...(await this.readSitemap(options.sitemap)));
+      } catch (err) {
+        this.debug.warn('Failed to read sitemap:', options.sitemap, err);
+        result.failed.push({
+          error: new GenerateMetadataError('Failed to read sitemap', {
+            cause: err,
+          }),
+          path: String(options.sitemap),
+        });
+      }
+    }
+
+    if (options.routeManifest) {
+      paths.push(...getRouteManifestPaths(options.routeManifest));
+    }
+
+    return paths;
+  }
+
+  // Files are not read here, so the client never imports Node.js modules
+  private readSitemap(sitemap: string | URL): Promise<string[]> {
+    const location = String(sitemap);
+    if (!httpUrlRegex.test(location)) {
+      return Promise.reject(
+        new Error(
+          'Only http(s) sitemaps can be fetched, read local files with readSitemapFile() from generate-metadata/node'
+        )
+      );
+    }
+    return fetchSitemap(location, this.customFetch);
+  }
+
+  protected fetchMetadata(
+    opts: GenerateMetadataOptions
+  ): Promise<MetadataApiResponse | null> {
+    const normalizedPath = this.normalizePath(opts.path);
+
+    return trace(
+      this.tracer,
+      'generate-metadata.fetchMetadata',
+      {
+        [spanAttributes.dsn]: opts.dsn ?? this.dsn,
+        [spanAttributes.path]: normalizedPath,
+      },
+      async (span) => {
+        const metadata = await this.resolveMetadata(normalizedPath, opts, span);
+        if (metadata?.metadataRevisionId) {
+          span?.setAttribute(
+            spanAttributes.revisionId,
+            metadata.metadataRevisionId
+          );
+        }
+        return metadata;
+      }
+    );
+  }
+
+  private async resolveMetadata(
+    normalizedPath: string,
+    opts: GenerateMetadataOptions,
+    span: Span | undefined
+  ): Promise<MetadataApiResponse | null> {
+    this.debug('fetchMetadata called with path:', normalizedPath);
+
+    // The manifest stands in for the API, so the other providers still apply
+    const manifest = this.getManifest(opts.dsn ?? this.dsn);
+    if (!this.providers.some(isApiProvider)) {
+      span?.setAttribute(spanAttributes.cacheStatus, 'provider');
+    } else if (manifest) {
+      span?.setAttribute(spanAttributes.cacheStatus, 'manifest');
+    }
+
+    const results = await Promise.all(
+      this.providers.map((provider) => {
+        if (!isApiProvider(provider)) {
+          return this.readProvider(provider, normalizedPath, opts.signal);
+        }
+        return manifest
+          ? this.readManifest(manifest, normalizedPath)
+          : this.resolveFromApi(normalizedPath, opts, span);
+      })
+    );
+    return mergeProviderResults(results);
+  }
+
+  private async resolveFromApi(
+    normalizedPath: string,
+    opts: GenerateMetadataOptions,
+    span: Span | undefined
+  ): Promise<MetadataApiResponse | null> {
+    const dsn = opts.dsn ?? this.dsn;
+
+    // If DSN is undefined, return empty metadata structure (development mode)
+    if (dsn === undefined) {
+      this.debug(
+        'DSN is undefined, returning empty metadata (development mode)'
+      );
+      return {
+        metadata: {},
+      };
+    }
+
+    const apiKey = opts.apiKey ?? this.apiKey;
+
+    const cacheKey = await this.getCacheKey(dsn, apiKey, normalizedPath);
+    const cached = await this.readCache(cacheKey);
+    if (cached) {
+      const state = getCacheEntryState(cached, this.cacheOptions);
+      span?.setAttribute(spanAttributes.cacheStatus, state);
+
+      if (state !== 'expired') {
+        this.emit('onCacheHit', {
+          dsn,
+          path: normalizedPath,
+          revisionId: cached.value.metadataRevisionId,
+          state,
+        });
+      }
+
+      if (state === 'fresh') {
+        this.debug('Found cached metadata for path:', normalizedPath);
+        return cached.value;
+      }
+
+      if (state === 'stale') {
+        this.debug(
+          'Found stale cached metadata, refreshing in background for path:',
+          normalizedPath
+        );
+        this.refreshInBackground(dsn, normalizedPath, apiKey);
+        return cached.value;
+      }
+
+      this.debug('Cached metadata expired for path:', normalizedPath);
+    }
+
+    if (!cached) {
+      span?.setAttribute(spanAttributes.cacheStatus, 'miss');
+    }
+    this.emit('onCacheMiss', {
+      dsn,
+      path: normalizedPath,
+      reason: cached ? 'expired' : 'missing',
+    });
+
+    this.debug(
+      'No cached metadata found, fetching from API for path:',
+      normalizedPath
+    );
+    const deadline = withTimeout(opts.signal, opts.latencyBudgetMs);
+    try {
+      return await abortable(
+        this.requestMetadata(dsn, normalizedPath, apiKey, opts.signal),
+        deadline.signal
+      );
+    } catch (err) {
+      return await this.recoverFromFetchError(err, {
+        apiKey,
+        budgetExceeded: Boolean(deadline.signal?.aborted),
+        cached,
+        dsn,
+        normalizedPath,
+        signal: opts.signal,
+      });
+    } finally {
+      deadline.cleanup();
+    }
+  }
+
+  /**
+   * Fetch a page's metadata along with its site. Both are bounded by the
+   * latency budget, so a slow site request renders the page without the
+   * title template rather than delaying it.
+   */
+  protected async fetchMetadataWithSite(
+    opts: GenerateMetadataOptions
+  ): Promise<[MetadataApiResponse | null, Site | null]> {
+    const site = this.getSite(opts);
+    // In strict mode the metadata can fail first, leaving the site unawaited
+    site.catch(() => {});
+
+    const metadata = await this.fetchMetadata(opts);
+    return [metadata, await site];
+  }
+
+  /**
+   * Get the site record, e.g. for its title template
+   * Returns `null` when it cannot be fetched so rendering never fails on it
+   */
+  protected async getSite(
+    opts: Pick<
+      GenerateMetadataOptions,
+      'apiKey' | 'dsn' | 'signal' | 'latencyBudgetMs'
+    > = {}
+  ): Promise<Site | null> {
+    const dsn = opts.dsn ?? this.dsn;
+    const manifest = this.getManifest(dsn);
+    if (manifest) {
+      return manifest.site ?? null;
+    }
+    if (dsn === undefined) {
+      return null;
+    }
+    const scope = await this.getSiteScope(dsn, opts.apiKey ?? this.apiKey);
+
+    const cached = this.siteEntries.get(scope.partition);
+    const served = cached && this.serveSiteEntry(scope, cached);
+    if (served) {
+      return served;
+    }
+
+    if (!this.strict && this.hasSiteFailedRecently(scope.partition)) {
+      this.debug('Site request failed recently, rendering without the site');
+      return cached?.value ?? null;
+    }
+
+    return await this.waitForSite(scope, opts, cached?.value ?? null);
+  }
+
+  private async getSiteScope(
+    dsn: string,
+    apiKey: string | undefined
+  ): Promise<SiteScope> {
+    return { apiKey, dsn, partition: await this.getPartition(dsn, apiKey) };
+  }
+
+  // Wait for the site within the latency budget, serving `fallback` otherwise
+  private async waitForSite(
+    scope: SiteScope,
+    opts: Pick<GenerateMetadataOptions, 'signal' | 'latencyBudgetMs'>,
+    fallback: Site | null
+  ): Promise<Site | null> {
+    const deadline = withTimeout(
+      opts.signal,
+      opts.latencyBudgetMs ?? defaultSiteLatencyBudgetMs
+    );
+    try {
+      return await abortable(this.requestSite(scope), deadline.signal);
+    } catch (err) {
+      if (this.strict && !opts.signal?.aborted) {
+        throw this.toStrictError(err, Boolean(deadline.signal?.aborted));
+      }
+      this.debug.warn('Failed to fetch site, Error:', err);
+      return fallback;
+    } finally {
+      deadline.cleanup();
+    }
+  }
+
+  // Serve a cached site unless it has expired, refreshing it when stale
+  private serveSiteEntry(
+    scope: SiteScope,
+    entry: { value: Site; storedAt: number }
+  ): Site | undefined {
+    const state = getCacheEntryState(entry, this.cacheOptions);
+
+    if (state === 'stale') {
+      this.requestSite(scope).catch((err) => {
+        this.debug.warn('Background site refresh failed:', err);
+      });
+    }
+    return state === 'expired' ? undefined : entry.value;
+  }
+
+  // Concurrent renders of a site share one site request
+  private requestSite(scope: SiteScope): Promise<Site> {
+    const { partition } = scope;
+    const inFlight = this.siteRequests.get(partition);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    // The metadata request of the same render makes the half-open trial
+    const request = this.fetchWithCircuitBreaker(() => this.fetchSite(scope), {
+      trial: false,
+    })
+      .then(
+        (site) => {
+          this.siteFailures.delete(partition);
+          return site;
+        },
+        (err: unknown) => {
+          if (!(err instanceof CircuitBreakerOpenError)) {
+            this.siteFailures.set(partition, Date.now());
+          }
+          throw err;
+        }
+      )
+      .finally(() => {
+        this.siteRequests.delete(partition);
+      });
+    this.siteRequests.set(partition, request);
+    return request;
+  }
+
+  private hasSiteFailedRecently(partition: string): boolean {
+    const failedAt = this.siteFailures.get(partition);
+    return failedAt !== undefined && Date.now() - failedAt < siteFailureTtlMs;
+  }
+
+  private async fetchSite(scope: SiteScope): Promise<Site> {
+    const { apiKey, dsn, partition } = scope;
+    const site = await trace(
+      this.tracer,
+      'generate-metadata.sitesGetSite',
+      { [spanAttributes.dsn]: dsn },
+      async (span) => {
+        const traceparent = getTraceparent(span);
+        const res = await this.api
+          .sitesGetSite({
+            params: {
+              path: {
+                dsn,
+              },
+            },
+            ...((apiKey || traceparent) && {
+              headers: {
+                ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+                ...(traceparent && { traceparent }),
+              },
+            }),
+          })
+          .catch((err: unknown) => {
+            throw toGenerateMetadataError(err);
+          });
+
+        if (!res.data) {
+          this.debug('API returned no site, error:', res.error);
+          throw createResponseError(res);
+        }
+        return res.data.site;
+      }
+    );
+
+    this.siteEntries.set(partition, { storedAt: Date.now(), value: site });
+    return site;
+  }
+
+  // The manifest only answers for the DSN it was generated for
+  private getManifest(dsn: string | undefined): MetadataManifest | undefined {
+    if (!this.manifest) {
+      return;
+    }
+    if (dsn !== undefined && dsn !== this.manifest.dsn) {
+      this.debug(
+        'Skipping metadata manifest generated for DSN:',
+        this.manifest.dsn
+      );
+      return;
+    }
+    return this.manifest;
+  }
+
+  private readManifest(
+    manifest: MetadataManifest,
+    normalizedPath: string
+  ): MetadataApiResponse | null {
+    const entry = manifest.entries[normalizedPath];
+    if (!entry) {
+      this.debug('No manifest entry for path:', normalizedPath);
+      return null;
+    }
+
+    this.debug('Found manifest entry for path:', normalizedPath);
+    return entry;
+  }
+
+  // Read paths from the manifest in place of the API
+  private readManyFromManifest(
+    manifest: MetadataManifest,
+    normalizedPaths: string[]
+  ): Map<string, GetManyMetadataResult> {
+    const results = new Map<string, GetManyMetadataResult>();
+    for (const normalizedPath of normalizedPaths) {
+      const metadata = this.readManifest(manifest, normalizedPath);
+      results.set(
+        normalizedPath,
+        metadata
+          ? { metadata, path: normalizedPath }
+          : {
+              error: new NotFoundError(
+                `No manifest entry for path: ${normalizedPath}`
+              ),
+              path: normalizedPath,
+            }
+      );
+    }
+    return results;
+  }
+
+  private async readProvider(
+    provider: MetadataProvider,
+    normalizedPath: string,
+    signal: AbortSignal | undefined
+  ): Promise<MetadataApiResponse | null> {
+    try {
+      const metadata = await provider.getMetadata({
+        path: normalizedPath,
+        signal,
+      });
+      if (!metadata) {
+        this.debug(
+          'Provider',
+          provider.name,
+          'has no metadata for path:',
+          normalizedPath
+        );
+      }
+      return metadata;
+    } catch (err) {
+      if (this.strict) {
+        throw err;
+      }
+      this.debug.warn(
+        'Provider',
+        provider.name,
+        'failed for path:',
+        normalizedPath,
+        'Error:',
+        err
+      );
+      return null;
+    }
+  }
+
+  // Pick the best metadata to serve when the API could not be used
+  private async recoverFromFetchError(
+    err: unknown,
+    context: {
+      apiKey: string | undefined;
+      budgetExceeded: boolean;
+      cached: MetadataCacheEntry | undefined;
+      dsn: string;
+      normalizedPath: string;
+      signal: AbortSignal | undefined;
+    }
+  ): Promise<MetadataApiResponse | null> {
+    const { apiKey, budgetExceeded, cached, dsn, normalizedPath, signal } =
+      context;
+
+    if (signal?.aborted) {
+      this.debug('Aborted waiting for metadata for path:', normalizedPath);
+      return null;
+    }
+
+    if (this.strict) {
+      throw this.toStrictError(err, budgetExceeded);
+    }
+
+    if (budgetExceeded) {
+      this.debug.info(
+        'Latency budget exceeded, continuing fetch in background for path:',
+        normalizedPath
+      );
+      return null;
+    }
+
+    if (cached && err instanceof CircuitBreakerOpenError) {
+      this.debug.warn(
+        'Circuit breaker is open, serving last known good metadata for path:',
+        normalizedPath
+      );
+      return cached.value;
+    }
+
+    this.debug.warn(
+      'Failed to fetch metadata for path:',
+      normalizedPath,
+      'Error:',
+      err
+    );
+
+    // The API answered, so a snapshot would only hide a rejected key or a
+    // removed page
+    if (
+      err instanceof GenerateMetadataAuthError ||
+      err instanceof NotFoundError
+    ) {
+      return null;
+    }
+    return await this.readSnapshot(
+      await this.getCacheKey(dsn, apiKey, normalizedPath),
+      { dsn, path: normalizedPath }
+    );
+  }
+
+  private toStrictError(
+    err: unknown,
+    budgetExceeded: boolean
+  ): GenerateMetadataError {
+    if (budgetExceeded) {
+      return new TimeoutError('Latency budget exceeded', { cause: err });
+    }
+    return toGenerateMetadataError(err);
+  }
+
+  // Concurrent requests for the same path and credentials share one API call
+  private requestMetadata(
+    dsn: string,
+    normalizedPath: string,
+    apiKey: string | undefined,
+    signal?: AbortSignal
+  ): Promise<MetadataApiResponse> {
+    const key = JSON.stringify([dsn, apiKey ?? null, normalizedPath]);
+
+    let inFlight = this.inFlight.get(key);
+    if (inFlight) {
+      this.debug('Joining in-flight request for path:', normalizedPath);
+    } else {
+      // Only a request started by a caller that can abort is cancellable
+      const controller = signal ? new AbortController() : undefined;
+      const request = this.fetchWithCircuitBreaker(
+        () =>
+          this.fetchFromApi(dsn, normalizedPath, apiKey, controller?.signal),
+        { signal: controller?.signal }
+      ).finally(() => {
+        this.inFlight.delete(key);
+      });
+      inFlight = { controller, request, waiting: 0 };
+      this.inFlight.set(key, inFlight);
+    }
+
+    this.waitForRequest(inFlight, signal);
+    return inFlight.request;
+  }
+
+  // Callers without a signal never abort, so they keep the request running
+  private waitForRequest(
+    inFlight: InFlightRequest,
+    signal: AbortSignal | undefined
+  ): void {
+    if (!signal) {
+      inFlight.waiting = Number.POSITIVE_INFINITY;
+      return;
+    }
+
+    inFlight.waiting += 1;
+    const onAbort = () => {
+      inFlight.waiting -= 1;
+      if (inFlight.waiting === 0) {
+        this.debug('Every caller aborted, cancelling the API request');
+        inFlight.controller?.abort(signal.reason);
+      }
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => {
+      signal.removeEventListener('abort', onAbort);
+    };
+    inFlight.request.then(cleanup, cleanup);
+  }
+
+  // With `trial: false`, requests are only made while the circuit is closed
+  // A request cancelled through `signal` says nothing about the API, so it is
+  // not recorded
+  private async fetchWithCircuitBreaker<T>(
+    request: () => Promise<T>,
+    options: { trial?: boolean; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    if (!this.circuitBreaker) {
+      return request();
+    }
+
+    const allowed =
+      options.trial === false
+        ? this.circuitBreaker.state === 'closed'
+        : this.circuitBreaker.canRequest();
+    if (!allowed) {
+      throw new CircuitBreakerOpenError();
+    }
 
-export type GenerateMetadataClientBaseOptions = {
-  dsn: string | undefined;
-  apiKey?: string | undefined;
-  debug?: boolean;
-};
+    try {
+      const data = await request();
+      this.circuitBreaker.recordSuccess();
+      return data;
+    } catch (err) {
+      if (options.signal?.aborted) {
+        this.circuitBreaker.cancelRequest();
+      } else {
+        this.circuitBreaker.recordError(err);
+      }
+      throw err;
+    }
+  }
 
-const bearerTokenRegex = /^Bearer (.+)$/;
+  // Fetch metadata from the API and store it in the cache
+  private async fetchFromApi(
+    dsn: string,
+    normalizedPath: string,
+    apiKey: string | undefined,
+    signal?: AbortSignal
+  ): Promise<MetadataApiResponse> {
+    const startedAt = Date.now();
+    this.emit('onFetchStart', { dsn, path: normalizedPath });
 
-export abstract class GenerateMetadataClientBase {
-  protected dsn: string | undefined;
-  protected apiKey: string | undefined;
-  protected debug: DebugFunction;
-  protected cache: {
-    latestMetadata: Map<string, MetadataApiResponse>;
-  };
-  protected api: BaseApiClient;
+    try {
+      const data = await this.requestLatestMetadata(
+        dsn,
+        normalizedPath,
+        apiKey,
+        signal
+      );
+      this.emit('onFetchSuccess', {
+        dsn,
+        duration: Date.now() - startedAt,
+        path: normalizedPath,
+        revisionId: data.metadataRevisionId,
+      });
+      return data;
+    } catch (err) {
+      if (!signal?.aborted) {
+        this.emit('onFetchError', {
+          dsn,
+          duration: Date.now() - startedAt,
+          error: err,
+          path: normalizedPath,
+        });
+      }
+      throw err;
+    }
+  }
 
-  constructor(props: GenerateMetadataClientBaseOptions) {
-    const { dsn, apiKey, debug: debugEnabled = false } = props;
+  private async requestLatestMetadata(
+    dsn: string,
+    normalizedPath: string,
+    apiKey: string | undefined,
+    signal?: AbortSignal
+  ): Promise<MetadataApiResponse> {
+    const data = await trace(
+      this.tracer,
+      'generate-metadata.metadataGetLatest',
+      {
+        [spanAttributes.dsn]: dsn,
+        [spanAttributes.path]: normalizedPath,
+      },
+      async (span) => {
+        const traceparent = getTraceparent(span);
+        const res = await this.api
+          .metadataGetLatest({
+            params: {
+              path: {
+                dsn,
+              },
+              query: {
+                path: normalizedPath,
+              },
+            },
+            ...(signal && { signal }),
+            ...((apiKey || traceparent) && {
+              headers: {
+                ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+                ...(traceparent && { traceparent }),
+              },
+            }),
+          })
+          .catch((err: unknown) => {
+            throw toGenerateMetadataError(err);
+          });
 
-    this.dsn = dsn;
-    this.apiKey = apiKey;
-    this.debug = createDebug('generate-metadata', debugEnabled);
-    this.cache = {
-      latestMetadata: new Map(),
-    };
-    this.api = new FetchApiClient();
+        if (!res.data) {
+          this.debug('API returned no data, error:', res.error);
+          throw createResponseError(res);
+        }
+
+        if (res.data.metadataRevisionId) {
+          span?.setAttribute(
+            spanAttributes.revisionId,
+            res.data.metadataRevisionId
+          );
+        }
+        return res.data;
+      }
+    );
 
     this.debug(
-      'Initialized client with DSN:',
-      dsn,
-      'API key:',
-      apiKey ? 'provided' : 'not provided'
+      'Successfully fetched metadata from API for path:',
+      normalizedPath
     );
+    await this.storeMetadata(dsn, normalizedPath, apiKey, data);
+
+    return data;
   }
-  protected abstract getFrameworkName(): 'next' | 'tanstack-start';
 
-  protected async fetchMetadata(
-    opts: GenerateMetadataOptions
-  ): Promise<MetadataApiResponse | null> {
-    const normalizedPath = normalizePathname(opts.path);
-    this.debug('fetchMetadata called with path:', normalizedPath);
+  // Fetch paths with one batch call, reporting each path like a single fetch
+  // Reuse fresh cached entries and fetch the rest in one batch
+  private async resolveManyFromApi(
+    dsn: string,
+    normalizedPaths: string[],
+    apiKey: string | undefined,
+    concurrency: number
+  ): Promise<Map<string, GetManyMetadataResult>> {
+    const results = new Map<string, GetManyMetadataResult>();
+    const misses: string[] = [];
+    for (const normalizedPath of normalizedPaths) {
+      const entry = await this.readCache(
+        await this.getCacheKey(dsn, apiKey, normalizedPath)
+      );
+      if (entry && getCacheEntryState(entry, this.cacheOptions) === 'fresh') {
+        this.emit('onCacheHit', {
+          dsn,
+          path: normalizedPath,
+          revisionId: entry.value.metadataRevisionId,
+          state: 'fresh',
+        });
+        results.set(normalizedPath, {
+          metadata: entry.value,
+          path: normalizedPath,
+        });
+      } else {
+        this.emit('onCacheMiss', {
+          dsn,
+          path: normalizedPath,
+          reason: entry ? 'expired' : 'missing',
+        });
+        misses.push(normalizedPath);
+      }
+    }
 
-    // If DSN is undefined, return empty metadata structure (development mode)
-    if (this.dsn === undefined) {
-      this.debug(
-        'DSN is undefined, returning empty metadata (development mode)'
+    this.debug(
+      'Fetching metadata for',
+      misses.length,
+      'of',
+      normalizedPaths.length,
+      'paths'
+    );
+    const fetched = await this.requestManyMetadata(
+      dsn,
+      misses,
+      apiKey,
+      concurrency
+    );
+    for (const result of fetched) {
+      results.set(result.path, result);
+    }
+    return results;
+  }
+
+  // Merge the API result for a path with the other providers, in the same
+  // order as a single render
+  private async mergeBatchResult(
+    normalizedPath: string,
+    fromApi: GetManyMetadataResult | undefined
+  ): Promise<GetManyMetadataResult> {
+    let metadata: MetadataApiResponse | null;
+    try {
+      const results = await Promise.all(
+        this.providers.map((provider) =>
+          isApiProvider(provider)
+            ? (fromApi?.metadata ?? null)
+            : this.readProvider(provider, normalizedPath, undefined)
+        )
       );
+      metadata = mergeProviderResults(results);
+    } catch (err) {
       return {
-        metadata: {},
+        error:
+          err instanceof GenerateMetadataError
+            ? err
+            : new GenerateMetadataError('Metadata provider failed', {
+                cause: err,
+              }),
+        path: normalizedPath,
       };
     }
 
-    const apiKey = opts.apiKey ?? this.apiKey;
+    if (metadata) {
+      return { metadata, path: normalizedPath };
+    }
+    return {
+      error:
+        fromApi?.error ??
+        new NotFoundError(`No metadata for path: ${normalizedPath}`),
+      path: normalizedPath,
+    };
+  }
 
-    const cached = this.cache.latestMetadata.get(normalizedPath);
-    if (cached) {
-      this.debug('Found cached metadata for path:', normalizedPath);
-      return cached;
+  private async requestManyMetadata(
+    dsn: string,
+    normalizedPaths: string[],
+    apiKey: string | undefined,
+    concurrency: number
+  ): Promise<GetManyMetadataResult[]> {
+    if (normalizedPaths.length === 0) {
+      return [];
     }
 
-    this.debug(
-      'No cached metadata found, fetching from API for path:',
-      normalizedPath
-    );
-    try {
-      const res = await this.api.metadataGetLatest({
-        params: {
-          path: {
-            dsn: this.dsn,
-          },
-          query: {
-            path: normalizePathname(normalizedPath),
-          },
-        },
-        ...(apiKey && {
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
+    // An open circuit allows a single trial request once it cools down, so
+    // the rest of the batch waits for it to decide whether the circuit closes
+    const [trialPath, ...rest] = normalizedPaths;
+    if (
+      this.circuitBreaker &&
+      this.circuitBreaker.state !== 'closed' &&
+      trialPath !== undefined &&
+      rest.length > 0
+    ) {
+      const [trial] = await this.fetchManyMetadata(
+        dsn,
+        [trialPath],
+        apiKey,
+        concurrency
+      );
+      if (trial?.error instanceof CircuitBreakerOpenError) {
+        const { error } = trial;
+        return normalizedPaths.map((path) => ({ error, path }));
+      }
+      return [
+        ...(trial ? [trial] : []),
+        ...(await this.requestManyMetadata(dsn, rest, apiKey, concurrency)),
+      ];
+    }
+
+    return this.fetchManyMetadata(dsn, normalizedPaths, apiKey, concurrency);
+  }
+
+  private async fetchManyMetadata(
+    dsn: string,
+    normalizedPaths: string[],
+    apiKey: string | undefined,
+    concurrency: number
+  ): Promise<GetManyMetadataResult[]> {
+    const startedAt = Date.now();
+    const responses = await trace(
+      this.tracer,
+      'generate-metadata.metadataGetMany',
+      { [spanAttributes.dsn]: dsn },
+      async (span) => {
+        const traceparent = getTraceparent(span);
+        const { results } = await this.api.metadataGetMany({
+          concurrency,
+          // Each path goes through the circuit breaker, so once it opens the
+          // rest of the batch is not requested
+          guard: (path, request) =>
+            this.fetchWithCircuitBreaker(async () => {
+              this.emit('onFetchStart', { dsn, path });
+              const res = await request();
+              if (!res.data) {
+                this.debug('API returned no data, error:', res.error);
+                throw createResponseError(res);
+              }
+              return res;
+            }),
+          params: {
+            path: {
+              dsn,
+            },
+            query: {
+              paths: normalizedPaths,
+            },
           },
-        }),
-      });
+          ...((apiKey || traceparent) && {
+            headers: {
+              ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+              ...(traceparent && { traceparent }),
+            },
+          }),
+        });
+        return results;
+      }
+    ).catch((reason: unknown) =>
+      normalizedPaths.map(
+        (): PromiseRejectedResult => ({ reason, status: 'rejected' })
+      )
+    );
+
+    return Promise.all(
+      normalizedPaths.map((normalizedPath, index) =>
+        this.settleBatchResult(
+          responses[index] as PromiseSettledResult<MetadataGetLatestResponse>,
+          { apiKey, dsn, normalizedPath, startedAt }
+        )
+      )
+    );
+  }
+
+  private async settleBatchResult(
+    result: PromiseSettledResult<MetadataGetLatestResponse>,
+    context: {
+      apiKey: string | undefined;
+      dsn: string;
+      normalizedPath: string;
+      startedAt: number;
+    }
+  ): Promise<GetManyMetadataResult> {
+    const { apiKey, dsn, normalizedPath, startedAt } = context;
+    if (
+      result.status === 'rejected' &&
+      result.reason instanceof CircuitBreakerOpenError
+    ) {
+      return { error: result.reason, path: normalizedPath };
+    }
 
+    try {
+      if (result.status === 'rejected') {
+        throw toGenerateMetadataError(result.reason);
+      }
+      const res = result.value;
       if (!res.data) {
-        this.debug('API returned no data, error:', res.error);
-        throw res.error;
+        throw createResponseError(res);
       }
 
-      this.debug(
-        'Successfully fetched metadata from API for path:',
-        normalizedPath
-      );
-      this.cache.latestMetadata.set(normalizedPath, res.data);
-
-      return res.data;
+      await this.storeMetadata(dsn, normalizedPath, apiKey, res.data);
+      this.emit('onFetchSuccess', {
+        dsn,
+        duration: Date.now() - startedAt,
+        path: normalizedPath,
+        revisionId: res.data.metadataRevisionId,
+      });
+      return { metadata: res.data, path: normalizedPath };
     } catch (err) {
-      this.debug(
+      const error = toGenerateMetadataError(err);
+      this.emit('onFetchError', {
+        dsn,
+        duration: Date.now() - startedAt,
+        error,
+        path: normalizedPath,
+      });
+      this.debug.warn(
         'Failed to fetch metadata for path:',
         normalizedPath,
         'Error:',
+        error
+      );
+      return { error, path: normalizedPath };
+    }
+  }
+
+  private async storeMetadata(
+    dsn: string,
+    normalizedPath: string,
+    apiKey: string | undefined,
+    data: MetadataApiResponse
+  ): Promise<void> {
+    const key = await this.getCacheKey(dsn, apiKey, normalizedPath);
+    const entry = { storedAt: Date.now(), value: data };
+    await this.writeCache(key, entry);
+    this.writeSnapshot(key, entry);
+  }
+
+  private refreshInBackground(
+    dsn: string,
+    normalizedPath: string,
+    apiKey: string | undefined
+  ): void {
+    this.requestMetadata(dsn, normalizedPath, apiKey).catch((err) => {
+      // Keep serving the stale entry until it expires
+      this.debug.warn(
+        'Background refresh failed for path:',
+        normalizedPath,
+        'Error:',
         err
       );
+    });
+  }
+
+  // Cache store failures are treated as misses so the API can still be used
+  private async readCache(
+    key: string
+  ): Promise<MetadataCacheEntry | undefined> {
+    try {
+      return await this.cache.latestMetadata.get(key);
+    } catch (err) {
+      this.debug.warn('Failed to read cache for key:', key, 'Error:', err);
+      return;
+    }
+  }
+
+  private async writeCache(
+    key: string,
+    entry: MetadataCacheEntry
+  ): Promise<void> {
+    try {
+      const { ttl, staleWhileRevalidate = 0 } = this.cacheOptions;
+      await this.cache.latestMetadata.set(
+        key,
+        ttl === undefined
+          ? entry
+          : { ...entry, expiresAt: entry.storedAt + ttl + staleWhileRevalidate }
+      );
+      this.metrics.recordCacheSize(this.getCacheStats());
+    } catch (err) {
+      this.debug.warn('Failed to write cache for key:', key, 'Error:', err);
+    }
+  }
+
+  private async readSnapshot(
+    key: string,
+    event: { dsn: string; path: string }
+  ): Promise<MetadataApiResponse | null> {
+    if (!this.snapshotOptions) {
+      return null;
+    }
+
+    const { store, maxAge } = this.snapshotOptions;
+    try {
+      const entry = await store.get(key);
+      if (!entry) {
+        this.debug('No snapshot found for key:', key);
+        return null;
+      }
+
+      const age = Date.now() - entry.storedAt;
+      if (maxAge !== undefined && age > maxAge) {
+        this.debug('Snapshot too old for key:', key, 'Age:', age);
+        return null;
+      }
+
+      this.debug.warn(
+        'Serving stale snapshot for key:',
+        key,
+        'Age:',
+        age,
+        'Stale:',
+        true
+      );
+      this.emit('onCacheHit', {
+        ...event,
+        revisionId: entry.value.metadataRevisionId,
+        state: 'snapshot',
+      });
+      return entry.value;
+    } catch (err) {
+      this.debug.warn('Failed to read snapshot for key:', key, err);
       return null;
     }
   }
 
-  protected clearCache(path: string | null): void {
-    const normalizedPath = normalizePathname(path);
+  // Snapshots are written in the background so they never delay rendering
+  private writeSnapshot(key: string, entry: MetadataCacheEntry) {
+    this.snapshotOptions?.store.set(key, entry).catch((err) => {
+      this.debug.warn('Failed to write snapshot for key:', key, err);
+    });
+  }
+
+  // Entries are partitioned by DSN and credentials, so a response is only
+  // served to calls made with the same API key
+  private async getCacheKey(
+    dsn: string,
+    apiKey: string | undefined,
+    normalizedPath: string
+  ): Promise<string> {
+    return getCacheKey(await this.getPartition(dsn, apiKey), normalizedPath);
+  }
+
+  private getPartition(
+    dsn: string,
+    apiKey: string | undefined
+  ): Promise<string> {
+    // Every API key used for metadata passes through here first
+    this.debug.addSecret(apiKey);
+    let partitions = this.partitions.get(dsn);
+    if (!partitions) {
+      partitions = new Map();
+      this.partitions.set(dsn, partitions);
+    }
+
+    let partition = partitions.get(apiKey);
+    if (!partition) {
+      partition = getCachePartition(dsn, apiKey);
+      partitions.set(apiKey, partition);
+    }
+    return partition;
+  }
+
+  // Partitions this client is configured with or has used. Entries written
+  // by other clients with other API keys are not in them.
+  private getKnownPartitions(scope: CacheScope | undefined): Promise<string[]> {
+    if (scope?.apiKey !== undefined) {
+      return Promise.all([this.getPartition(scope.dsn, scope.apiKey)]);
+    }
+
+    const configured: SiteCredentials[] = [
+      ...(this.dsn === undefined ? [] : [{ dsn: this.dsn }]),
+      ...(this.sites && typeof this.sites !== 'function'
+        ? Object.values(this.sites)
+        : []),
+    ];
+    for (const site of configured) {
+      if (scope === undefined || site.dsn === scope.dsn) {
+        this.getPartition(site.dsn, site.apiKey ?? this.apiKey);
+      }
+    }
+
+    const dsns = scope ? [scope.dsn] : [...this.partitions.keys()];
+    return Promise.all(
+      dsns.flatMap((dsn) => [...(this.partitions.get(dsn)?.values() ?? [])])
+    );
+  }
+
+  /**
+   * Remove a path from the cache so its next render fetches it again
+   * A path is removed from the partitions of the DSNs and API keys this
+   * client uses, while a pattern lists every key of the cache store
+   * @param path - The path, or a pattern such as `/blog/*` or
+   * `/docs/[...slug]` that matches any query string
+   * @param scope - The DSN, and optionally API key, whose entries are
+   * removed. Entries of every partition are removed when omitted.
+   * @returns The number of entries removed
+   */
+  public async invalidate(path: string, scope?: CacheScope): Promise<number> {
+    if (isPathPattern(path)) {
+      this.debug('Invalidating cache for pattern:', path);
+      return await this.deleteEntries(
+        (entryPath) => matchPathPattern(path, getPathnameOf(entryPath)),
+        scope
+      );
+    }
+
+    const normalizedPath = this.normalizePath(path);
+    this.debug('Invalidating cache for path:', normalizedPath);
+    return await this.deletePath(normalizedPath, scope);
+  }
+
+  /**
+   * Remove a path and every path below it from the cache, e.g. `/blog`
+   * removes `/blog`, `/blog/hello` and `/blog?page=2` but not `/blogroll`
+   * This lists every key of the cache store
+   * @returns The number of entries removed
+   */
+  public async invalidatePrefix(
+    prefix: string,
+    scope?: CacheScope
+  ): Promise<number> {
+    const normalizedPrefix = getPathnameOf(this.normalizePath(prefix));
+    this.debug('Invalidating cache for prefix:', normalizedPrefix);
+    return await this.deleteEntries((entryPath) => {
+      const pathname = getPathnameOf(entryPath);
+      return (
+        normalizedPrefix === '/' ||
+        pathname === normalizedPrefix ||
+        pathname.startsWith(`${normalizedPrefix}/`)
+      );
+    }, scope);
+  }
+
+  /**
+   * Remove every cached path and site of every partition
+   */
+  public async invalidateAll(): Promise<void> {
+    await this.clearCache(null);
+  }
+
+  /**
+   * Read a cached path without fetching it or counting a cache hit
+   * @returns The entry, or `undefined` when the path is not cached for the
+   * DSN and API key
+   */
+  public async peek(
+    path: string,
+    options: Pick<GenerateMetadataOptions, 'apiKey' | 'dsn'> = {}
+  ): Promise<CachedMetadata | undefined> {
+    const dsn = options.dsn ?? this.dsn;
+    if (dsn === undefined) {
+      return;
+    }
+
+    const normalizedPath = this.normalizePath(path);
+    const key = await this.getCacheKey(
+      dsn,
+      options.apiKey ?? this.apiKey,
+      normalizedPath
+    );
+    const entry = await this.readCache(key);
+    return entry && this.toCachedMetadata(key, entry);
+  }
+
+  /**
+   * List every cached path, e.g. to inspect the cache in an admin route
+   */
+  public async entries(): Promise<CachedMetadata[]> {
+    const keys = await this.cache.latestMetadata.keys();
+    const entries = await Promise.all(
+      keys.map(async (key) => {
+        const entry = await this.readCache(key);
+        return entry && this.toCachedMetadata(key, entry);
+      })
+    );
+    return entries.filter((entry) => entry !== undefined);
+  }
+
+  private toCachedMetadata(
+    key: string,
+    entry: MetadataCacheEntry
+  ): CachedMetadata | undefined {
+    const parsed = parseCacheKey(key);
+    if (!parsed) {
+      return;
+    }
+    return {
+      dsn: parsed.dsn,
+      path: parsed.path,
+      state: getCacheEntryState(entry, this.cacheOptions),
+      storedAt: entry.storedAt,
+      value: entry.value,
+    };
+  }
+
+  /**
+   * Clear cached metadata
+   * @param path - The path to clear, or `null` to clear every path
+   * @param scope - The DSN, and optionally API key, whose entries are
+   * cleared. Entries of every partition are cleared when omitted.
+   */
+  protected async clearCache(
+    path: string | null,
+    scope?: CacheScope
+  ): Promise<void> {
+    const normalizedPath = this.normalizePath(path);
+    const store = this.cache.latestMetadata;
+
     if (normalizedPath !== null) {
-      this.debug('Clearing cache for path:', normalizedPath);
-      this.cache.latestMetadata.delete(normalizedPath);
-    } else {
+      this.debug(
+        'Clearing cache for path:',
+        normalizedPath,
+        'in',
+        scope?.dsn ?? 'all sites'
+      );
+      const keys = await this.getPathKeys(normalizedPath, scope);
+      await Promise.all(keys.map((key) => store.delete(key)));
+      return;
+    }
+
+    if (!scope) {
       this.debug('Clearing entire cache');
       // If path is null, clear entire cache
-      this.cache.latestMetadata.clear();
+      this.siteEntries.clear();
+      await store.clear();
+      return;
+    }
+
+    // Paths are unknown, so the keys of the site are listed
+    this.debug('Clearing cache for all paths in', scope.dsn);
+    for (const partition of await this.getKnownPartitions({ dsn: scope.dsn })) {
+      this.siteEntries.delete(partition);
+    }
+    await this.deleteEntries(() => true, scope);
+  }
+
+  // Keys of a path in each known partition, found without listing the store
+  private async getPathKeys(
+    normalizedPath: string,
+    scope: CacheScope | undefined
+  ): Promise<string[]> {
+    const partitions = await this.getKnownPartitions(scope);
+    return partitions.map((partition) =>
+      getCacheKey(partition, normalizedPath)
+    );
+  }
+
+  private async deletePath(
+    normalizedPath: string,
+    scope: CacheScope | undefined
+  ): Promise<number> {
+    const store = this.cache.latestMetadata;
+    const keys = await this.getPathKeys(normalizedPath, scope);
+    const cached = await Promise.all(keys.map((key) => this.readCache(key)));
+    const deleted = keys.filter((_, index) => cached[index] !== undefined);
+    await Promise.all(deleted.map((key) => store.delete(key)));
+    return deleted.length;
+  }
+
+  // Delete the entries whose normalized path matches, in every partition
+  // unless a scope is given. This lists every key of the store.
+  private async deleteEntries(
+    matches: (normalizedPath: string) => boolean,
+    scope: CacheScope | undefined
+  ): Promise<number> {
+    const store = this.cache.latestMetadata;
+    const partition =
+      scope?.apiKey === undefined
+        ? undefined
+        : await this.getPartition(scope.dsn, scope.apiKey);
+    const keys = (await store.keys()).filter((key) => {
+      const parsed = parseCacheKey(key);
+      return (
+        parsed !== undefined &&
+        (scope === undefined || parsed.dsn === scope.dsn) &&
+        (partition === undefined || parsed.partition === partition) &&
+        matches(parsed.path)
+      );
+    });
+    await Promise.all(keys.map((key) => store.delete(key)));
+    return keys.length;
+  }
+
+  /**
+   * Clear the cache for a webhook, in the partition of the site it is for
+   */
+  protected async clearWebhookCache(
+    path: string | null,
+    dsn: string | undefined
+  ): Promise<void> {
+    if (this.sites && dsn !== undefined) {
+      await this.clearCache(path, { dsn });
+      return;
+    }
+    await this.clearCache(path);
+  }
+
+  /**
+   * Fill in the DSN and API key of the site being rendered, picked by the
+   * hostname of the request when the client has `sites`
+   */
+  protected async resolveSite<
+    Options extends Pick<
+      GenerateMetadataOptions,
+      'apiKey' | 'dsn' | 'hostname'
+    >,
+  >(opts: Options): Promise<Options> {
+    if (!this.sites || opts.dsn !== undefined) {
+      return opts;
+    }
+
+    const hostname = opts.hostname ?? (await this.getRequestHostname());
+    if (hostname === undefined) {
+      this.debug.warn('Could not determine the hostname, using default DSN');
+      return opts;
     }
+
+    const site = await resolveSiteCredentials(this.sites, hostname);
+    this.debug.addSecret(site?.apiKey);
+    if (!site) {
+      this.debug.warn('No site configured for hostname:', hostname);
+      return opts;
+    }
+
+    this.debug('Resolved hostname', hostname, 'to DSN:', site.dsn);
+    return { ...opts, apiKey: opts.apiKey ?? site.apiKey, dsn: site.dsn };
+  }
+
+  /**
+   * Hostname of the request being rendered, if the framework exposes it
+   */
+  // biome-ignore lint/suspicious/useAwait: overridden by frameworks
+  protected async getRequestHostname(): Promise<string | undefined> {
+    return;
   }
 
   /**
@@ -196,7 +2166,9 @@ export abstract class GenerateMetadataClientBase {
 
     // If webhookSecret is undefined, return error for all routes
     if (webhookSecret === undefined) {
-      this.debug('Webhook secret not configured, returning error handler');
+      this.debug.error(
+        'Webhook secret not configured, returning error handler'
+      );
       // biome-ignore lint/suspicious/useAwait: ok
       app.use('*', async (c) => {
         return respond(c, 500, {
@@ -281,7 +2253,7 @@ export abstract class GenerateMetadataClientBase {
 
       // If neither authentication method succeeds, return 401
       if (!isAuthenticated) {
-        this.debug('Authentication failed, returning 401');
+        this.debug.warn('Authentication failed, returning 401');
         return respond(c, 401, { error: 'Unauthorized', ok: false });
       }
 
@@ -305,8 +2277,28 @@ export abstract class GenerateMetadataClientBase {
             c.req.valid('json');
 
           this.debug('Webhook received with type:', body._type);
+          // Older webhook payloads may not include every field
+          const update =
+            body._type === 'metadata_update'
+              ? (body as Partial<typeof body>)
+              : undefined;
+          this.emit('onWebhookReceived', {
+            dsn: update?.site?.dsn,
+            path: update?.path,
+            revisionId: update?.metadataRevisionId,
+            type: body._type,
+          });
 
-          const metadata = await webhookHandler(body);
+          const metadata = await trace(
+            this.tracer,
+            'generate-metadata.webhook',
+            {
+              [spanAttributes.path]: update?.path ?? undefined,
+              [spanAttributes.revisionId]: update?.metadataRevisionId,
+              [spanAttributes.webhookType]: body._type,
+            },
+            () => webhookHandler(body)
+          );
 
           this.debug('Webhook handler completed successfully');
 
@@ -315,7 +2307,7 @@ export abstract class GenerateMetadataClientBase {
             ok: true,
           });
         } catch (error) {
-          this.debug('Webhook handler error:', error);
+          this.debug.error('Webhook handler error:', error);
 
           return respond(c, 500, {
             error: 'Failed to run webhook handler',
@@ -349,10 +2341,12 @@ export abstract class GenerateMetadataClientBase {
         }
 
         const { path: originalPath } = data;
-        const path = normalizePathname(originalPath);
+        const path = this.normalizePath(originalPath);
         this.debug('Processing metadata_update for path:', path);
 
-        this.clearCache(path);
+        const dsn = (data as Partial<typeof data>).site?.dsn ?? this.dsn;
+        const startedAt = Date.now();
+        await this.clearWebhookCache(path, dsn);
         if (options.revalidatePath) {
           this.debug('Using custom revalidatePath function');
           await options.revalidatePath(path);
@@ -360,6 +2354,12 @@ export abstract class GenerateMetadataClientBase {
           this.debug('Using framework revalidate method');
           await this.triggerRevalidation(path);
         }
+        this.emit('onRevalidate', {
+          dsn,
+          duration: Date.now() - startedAt,
+          path,
+          revisionId: data.metadataRevisionId,
+        });
 
         return { path, revalidated: true };
       },
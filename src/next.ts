@@ -1,14 +1,26 @@
 import _ from 'es-toolkit/compat';
 import { handle } from 'hono/vercel';
-import type { Metadata, ResolvingMetadata } from 'next';
+import type { Metadata, NextConfig, ResolvingMetadata } from 'next';
 import { revalidatePath } from 'next/cache';
+import { headers } from 'next/headers';
 import { match } from 'ts-pattern';
 import {
   GenerateMetadataClientBase,
   type GenerateMetadataOptions,
   type MetadataApiResponse,
+  type Site,
 } from '.';
 import { normalizePathname } from './utils/normalize-pathname';
+import { applyTitleTemplate } from './utils/title-template';
+import { spanAttributes, trace } from './utils/tracing';
+
+export type RootMetadataOptions = Pick<
+  GenerateMetadataOptions,
+  'latencyBudgetMs' | 'signal'
+> & {
+  override?: Metadata;
+  fallback?: Metadata;
+};
 
 export class GenerateMetadataClient extends GenerateMetadataClientBase {
   protected getFrameworkName(): 'next' {
@@ -32,7 +44,10 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
     return _.merge({}, fallback || {}, generated, override || {});
   }
 
-  private convertToNextMetadata(response: MetadataApiResponse): Metadata {
+  private convertToNextMetadata(
+    response: MetadataApiResponse,
+    site: Site | null = null
+  ): Metadata {
     this.debug('Converting API response to Next.js metadata');
 
     if (!response.metadata) {
@@ -52,7 +67,17 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
     for (const key of keys) {
       match(key)
         .with('title', () => {
-          nextMetadata.title = metadata.title;
+          // The template is already applied, so the root layout's
+          // `title.template` must not be applied again
+          nextMetadata.title =
+            metadata.title && site?.titleTemplate
+              ? {
+                  absolute: applyTitleTemplate(
+                    metadata.title,
+                    site.titleTemplate
+                  ),
+                }
+              : metadata.title;
         })
         .with('description', () => {
           nextMetadata.description = metadata.description;
@@ -244,22 +269,46 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
       this.debug('getMetadata called');
       const opts = await factory(props, parent);
       const { path: originalPath, fallback, override } = opts;
-      const path = normalizePathname(originalPath);
+      const path = this.normalizePath(originalPath);
       this.debug('Factory returned options with path:', path);
 
+      let dsn = opts.dsn ?? this.dsn;
       try {
-        const metadata = await this.fetchMetadata(opts);
+        const siteOpts = await this.resolveSite(opts);
+        dsn = siteOpts.dsn ?? this.dsn;
+        const [metadata, site] = await this.fetchMetadataWithSite(siteOpts);
+
+        if (!metadata) {
+          this.emit('onFallbackUsed', {
+            dsn,
+            error: undefined,
+            path,
+          });
+        }
 
-        const nextMetadata = metadata
-          ? this.convertToNextMetadata(metadata)
-          : {};
+        const attributes = { [spanAttributes.path]: path };
+        const nextMetadata = trace(
+          this.tracer,
+          'generate-metadata.convert',
+          attributes,
+          () => (metadata ? this.convertToNextMetadata(metadata, site) : {})
+        );
 
         // Deep merge: override > generated > fallback
-        const result = this.mergeMetadata(fallback, nextMetadata, override);
+        const result = trace(
+          this.tracer,
+          'generate-metadata.merge',
+          attributes,
+          () => this.mergeMetadata(fallback, nextMetadata, override)
+        );
         this.debug('Returning merged metadata');
         return result;
       } catch (error) {
-        this.debug('Error generating metadata:', error);
+        this.debug.warn('Error generating metadata:', error);
+        this.emit('onFallbackUsed', { dsn, error, path });
+        if (this.strict) {
+          throw error;
+        }
         return fallback || {};
       }
     };
@@ -269,9 +318,7 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
     factory?: (
       props: Props,
       parent: ResolvingMetadata
-    ) =>
-      | { override?: Metadata; fallback?: Metadata }
-      | Promise<{ override?: Metadata; fallback?: Metadata }>
+    ) => RootMetadataOptions | Promise<RootMetadataOptions>
   ) {
     return async (
       props: Props,
@@ -279,12 +326,35 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
     ): Promise<Metadata> => {
       // biome-ignore lint/nursery/noUnnecessaryConditions: wrong
       const opts = factory ? await factory(props, parent) : {};
-      // Return empty metadata merged with fallback and override
-      return this.mergeMetadata(opts.fallback, {}, opts.override);
+      const siteOpts: Pick<
+        GenerateMetadataOptions,
+        'hostname' | 'latencyBudgetMs' | 'signal'
+      > = { latencyBudgetMs: opts.latencyBudgetMs, signal: opts.signal };
+      const site = await this.getSite(await this.resolveSite(siteOpts));
+
+      const generated: Metadata = site?.titleTemplate
+        ? { title: { default: site.name, template: site.titleTemplate } }
+        : {};
+
+      // Merge the site title template with fallback and override
+      return this.mergeMetadata(opts.fallback, generated, opts.override);
     };
   }
 
+  protected async getRequestHostname(): Promise<string | undefined> {
+    try {
+      // X-Forwarded-Host is set by the client unless a proxy overwrites it, so
+      // it could pick the DSN and API key of another site
+      const requestHeaders = await headers();
+      return requestHeaders.get('host') ?? undefined;
+    } catch {
+      // Not called while rendering a request, e.g. at build time
+      return;
+    }
+  }
+
   protected async triggerRevalidation(path: string | null): Promise<void> {
+    // Next.js revalidates routes, so query parameters are always dropped here
     const normalizedPath = normalizePathname(path);
     if (normalizedPath !== null) {
       this.debug('Revalidating path:', normalizedPath);
@@ -339,13 +409,13 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
         }
 
         const { path: originalPath } = data;
-        const path = normalizePathname(originalPath);
+        const path = this.normalizePath(originalPath);
         this.debug(
           'Processing metadata_update webhook for path:',
           originalPath
         );
 
-        const normalizedRevalidatePath = normalizePathname(
+        const normalizedRevalidatePath = this.normalizePath(
           options.revalidate?.pathRewrite?.(path) ?? path
         );
 
@@ -353,8 +423,16 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
           this.debug('Path rewritten from', path, 'to', path);
         }
 
-        this.clearCache(path);
+        const dsn = (data as Partial<typeof data>).site?.dsn ?? this.dsn;
+        const startedAt = Date.now();
+        await this.clearWebhookCache(path, dsn);
         await this.triggerRevalidation(normalizedRevalidatePath);
+        this.emit('onRevalidate', {
+          dsn,
+          duration: Date.now() - startedAt,
+          path: normalizedRevalidatePath,
+          revisionId: data.metadataRevisionId,
+        });
 
         return { path, revalidated: true };
       },
@@ -374,4 +452,21 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
       PUT: handler,
     };
   }
+
+  /**
+   * Wrap your Next.js config to register each build with `registerBuild()`
+   * Uses the build ID from your `generateBuildId`, or generates one when it
+   * returns nothing so the registered ID is the one Next.js uses
+   */
+  public withRegisterBuild(nextConfig: NextConfig = {}): NextConfig {
+    return {
+      ...nextConfig,
+      generateBuildId: async () => {
+        const buildId =
+          (await nextConfig.generateBuildId?.()) ?? crypto.randomUUID();
+        await this.registerBuild(buildId);
+        return buildId;
+      },
+    };
+  }
 }
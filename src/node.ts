@@ -0,0 +1,18 @@
+// Node.js-only helpers live in their own entry point so that the framework
+// clients stay bundleable for the browser
+
+// biome-ignore lint/performance/noBarrelFile: public entry point
+export {
+  FileSystemCacheStore,
+  type FileSystemCacheStoreOptions,
+} from './utils/cache/fs';
+export {
+  readMetadataManifest,
+  writeMetadataManifest,
+} from './utils/manifest/fs';
+export {
+  type FileMetadataProvider,
+  type FileProviderOptions,
+  fileProvider,
+} from './utils/providers/file';
+export { readSitemapFile } from './utils/sitemap/fs';
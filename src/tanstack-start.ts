@@ -7,14 +7,17 @@ import {
   type GenerateMetadataClientBaseOptions,
   type GenerateMetadataOptions,
   type MetadataApiResponse,
+  type Site,
+  type SiteCredentials,
 } from '.';
-import { FetchApiClient } from './utils/api/fetch';
+import { FetchApiClient, type FetchApiClientOptions } from './utils/api/fetch';
 import {
   type ServerFnType,
   TanstackStartApiClient,
   validator,
 } from './utils/api/tanstack-start';
-import { normalizePathname } from './utils/normalize-pathname';
+import { applyTitleTemplate } from './utils/title-template';
+import { spanAttributes, trace } from './utils/tracing';
 
 // TanStack Start's head function return type
 type TanstackHead = {
@@ -49,6 +52,61 @@ export type GenerateMetadataClientOptions =
     serverFn?: ServerFnType;
   };
 
+// Responses cannot be serialized, so only the status of failed requests is kept
+function toSerializableResponse<T extends { response?: Response }>(
+  response: T
+): Omit<T, 'response'> & { status?: number } {
+  const { response: raw, ...rest } = response;
+  return raw && !raw.ok ? { ...rest, status: raw.status } : rest;
+}
+
+export type ServerFnHandlerOptions = FetchApiClientOptions & {
+  /**
+   * API key for requests whose DSN is not in `sites`
+   */
+  apiKey: string | undefined;
+  /**
+   * The `sites` of the client, so each site is fetched with its own API key.
+   * Pass a function to look up the API key of a DSN instead.
+   */
+  sites?:
+    | Record<string, SiteCredentials>
+    | ((dsn: string) => string | undefined | Promise<string | undefined>);
+};
+
+// The key is picked on the server, as the DSN is the only thing the caller sends
+async function getServerFnApiKey(
+  options: ServerFnHandlerOptions,
+  dsn: string | undefined
+): Promise<string | undefined> {
+  const { apiKey, sites } = options;
+  if (!sites || dsn === undefined) {
+    return apiKey;
+  }
+  if (typeof sites === 'function') {
+    return (await sites(dsn)) ?? apiKey;
+  }
+  const site = Object.values(sites).find(
+    (credentials) => credentials.dsn === dsn
+  );
+  return site?.apiKey ?? apiKey;
+}
+
+export type VitePluginOptions = {
+  /**
+   * Return the ID of the build, e.g. a commit SHA
+   * Defaults to a random UUID
+   */
+  buildId?: () => string | Promise<string>;
+};
+
+// The subset of Vite's `Plugin` type used here, so Vite is not a dependency
+export type VitePlugin = {
+  name: string;
+  apply: 'build';
+  closeBundle: () => Promise<void>;
+};
+
 export class GenerateMetadataClient extends GenerateMetadataClientBase {
   constructor(props: GenerateMetadataClientOptions) {
     super(props);
@@ -147,7 +205,10 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
     return result;
   }
 
-  private convertToTanstackHead(response: MetadataApiResponse): TanstackHead {
+  private convertToTanstackHead(
+    response: MetadataApiResponse,
+    site: Site | null = null
+  ): TanstackHead {
     this.debug('Converting API response to TanStack Start head');
 
     if (!response.metadata) {
@@ -169,8 +230,12 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
       match(key)
         .with('title', () => {
           if (metadata.title) {
-            meta.push({ content: metadata.title, name: 'title' });
-            meta.push({ title: metadata.title });
+            const title = applyTitleTemplate(
+              metadata.title,
+              site?.titleTemplate
+            );
+            meta.push({ content: title, name: 'title' });
+            meta.push({ title });
           }
         })
         .with('description', () => {
@@ -382,34 +447,72 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
         }[];
       };
       path?: string;
+      /**
+       * The request being rendered, used to pick the site when the client
+       * has `sites`
+       */
+      request?: Request;
       override?: TanstackHead;
       fallback?: TanstackHead;
     }
   ) {
     this.debug('getHead called');
-    const { path: originalPath, fallback, override, ctx } = opts;
-    const path = normalizePathname(
+    const {
+      path: originalPath,
+      fallback,
+      override,
+      ctx,
+      request,
+      signal,
+      latencyBudgetMs,
+    } = opts;
+    const path = this.normalizePath(
       originalPath ?? _.last(ctx.matches)?.pathname ?? ctx.match.pathname
     );
     this.debug('Factory returned options with path:', path);
 
     const data: GenerateMetadataOptions = {
+      apiKey: opts.apiKey,
+      dsn: opts.dsn,
+      hostname: opts.hostname ?? (request && new URL(request.url).hostname),
+      latencyBudgetMs,
       path,
+      signal,
     };
 
+    let dsn = data.dsn ?? this.dsn;
     try {
-      const metadata = await this.fetchMetadata({
-        ...data,
-      });
+      const siteData = await this.resolveSite(data);
+      dsn = siteData.dsn ?? this.dsn;
+      const [metadata, site] = await this.fetchMetadataWithSite(siteData);
+
+      if (!metadata) {
+        this.emit('onFallbackUsed', { dsn, error: undefined, path });
+      }
 
-      const tanstackHead = metadata ? this.convertToTanstackHead(metadata) : {};
+      const attributes = { [spanAttributes.path]: path };
+      const tanstackHead = trace(
+        this.tracer,
+        'generate-metadata.convert',
+        attributes,
+        () => (metadata ? this.convertToTanstackHead(metadata, site) : {})
+      );
 
       // Deep merge: override > generated > fallback
-      const result = this.mergeMetadata(fallback, tanstackHead, override);
+      const result = trace(
+        this.tracer,
+        'generate-metadata.merge',
+        attributes,
+        () => this.mergeMetadata(fallback, tanstackHead, override)
+      );
       this.debug('Returning merged head metadata');
       return result;
     } catch (error) {
-      this.debug('Error getting head metadata:', error);
+      this.debug.warn('Error getting head metadata:', error);
+      this.emit('onFallbackUsed', { dsn, error, path });
+      if (this.strict) {
+        throw error;
+      }
       return fallback || {};
     }
   }
@@ -419,10 +522,20 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
 
   public static async serverFnHandler(
     ctx: ServerFnCtx<unknown, 'data', undefined, typeof validator>,
-    options: { apiKey: string | undefined }
+    options: ServerFnHandlerOptions
   ) {
-    const { apiKey } = options;
-    const fetchApiClient = new FetchApiClient();
+    const {
+      apiKey: _apiKey,
+      sites: _sites,
+      ...fetchApiClientOptions
+    } = options;
+    const fetchApiClient = new FetchApiClient(fetchApiClientOptions);
+    const apiKey = await getServerFnApiKey(
+      options,
+      ctx.data.type === 'placeholder'
+        ? undefined
+        : ctx.data.args?.params?.path?.dsn
+    );
 
     if (ctx.data.type === 'metadataGetLatest') {
       const response = await fetchApiClient.metadataGetLatest({
@@ -431,8 +544,22 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
           ...ctx.data.args?.headers,
           Authorization: `Bearer ${apiKey}`,
         },
+        // Stop retrying once the client disconnects
+        ...(ctx.signal && { signal: ctx.signal }),
+      });
+      return toSerializableResponse(response);
+    }
+
+    if (ctx.data.type === 'sitesGetSite') {
+      const response = await fetchApiClient.sitesGetSite({
+        ...ctx.data.args,
+        headers: {
+          ...ctx.data.args?.headers,
+          Authorization: `Bearer ${apiKey}`,
+        },
+        ...(ctx.signal && { signal: ctx.signal }),
       });
-      return _.omit(response, 'response');
+      return toSerializableResponse(response);
     }
 
     throw new Error(
@@ -459,6 +586,34 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
     };
   }
 
+  /**
+   * Vite plugin that registers each production build with `registerBuild()`
+   * Add it to the `plugins` in your `vite.config.ts`
+   */
+  public vitePlugin(options: VitePluginOptions = {}): VitePlugin {
+    let registration: Promise<boolean> | undefined;
+
+    return {
+      apply: 'build',
+      // Runs once per environment (client and server), but registers once
+      closeBundle: async () => {
+        registration ??= Promise.resolve(
+          options.buildId?.() ?? crypto.randomUUID()
+        ).then((buildId) => this.registerBuild(buildId));
+        await registration;
+      },
+      name: 'generate-metadata',
+    };
+  }
+
+  // In the browser the site is picked by the page's hostname; on the server,
+  // pass `request` or `hostname` to `getHead`
+  // biome-ignore lint/suspicious/useAwait: matches the base signature
+  protected async getRequestHostname(): Promise<string | undefined> {
+    return (globalThis as { location?: { hostname: string } }).location
+      ?.hostname;
+  }
+
   // biome-ignore lint/suspicious/useAwait: might need to be async
   protected async triggerRevalidation(_path: string | null): Promise<void> {
     this.debug(
@@ -488,13 +643,13 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
         }
 
         const { path: originalPath } = data;
-        const normalizedPath = normalizePathname(originalPath);
+        const normalizedPath = this.normalizePath(originalPath);
         this.debug(
           'Processing metadata_update webhook for path:',
           normalizedPath
         );
 
-        const path = normalizePathname(
+        const path = this.normalizePath(
           options.revalidate?.pathRewrite?.(normalizedPath) ?? normalizedPath
         );
 
@@ -502,8 +657,16 @@ export class GenerateMetadataClient extends GenerateMetadataClientBase {
           this.debug('Path rewritten from', normalizedPath, 'to', path);
         }
 
-        this.clearCache(path);
+        const dsn = (data as Partial<typeof data>).site?.dsn ?? this.dsn;
+        const startedAt = Date.now();
+        await this.clearWebhookCache(path, dsn);
         await this.triggerRevalidation(path);
+        this.emit('onRevalidate', {
+          dsn,
+          duration: Date.now() - startedAt,
+          path,
+          revisionId: data.metadataRevisionId,
+        });
 
         return { path, revalidated: true };
       },
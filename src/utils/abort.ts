@@ -0,0 +1,100 @@
+/**
+ * Isomorphic AbortSignal helpers
+ * Avoids `AbortSignal.any` and `AbortSignal.timeout`, which are not available
+ * in every runtime we support
+ */
+
+/**
+ * Stop waiting for a promise once the signal is aborted
+ * The underlying work is not cancelled
+ * @param promise - The promise to wait for
+ * @param signal - The signal that stops waiting
+ * @returns A promise that rejects with the abort reason when aborted
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    // Nobody waits for the promise any more, so its failure is not unhandled
+    promise.catch(() => {});
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Create a signal that aborts when the parent signal aborts or the timeout
+ * elapses, whichever happens first
+ * @param signal - The parent signal
+ * @param timeoutMs - The timeout in milliseconds
+ * @returns The combined signal and a function to release its listeners
+ */
+export function withTimeout(
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined
+): { signal: AbortSignal | undefined; cleanup: () => void } {
+  if (timeoutMs === undefined) {
+    return { cleanup: () => {}, signal };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => {
+    controller.abort(signal?.reason);
+  };
+
+  const timeout = setTimeout(() => {
+    controller.abort(
+      new DOMException(`Request timed out after ${timeoutMs}ms`, 'TimeoutError')
+    );
+  }, timeoutMs);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    cleanup: () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    },
+    signal: controller.signal,
+  };
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal is aborted
+ * @param ms - The time to wait in milliseconds
+ * @param signal - The signal that cancels the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(
+    new Promise<void>((resolve) => {
+      setTimeout(resolve, ms);
+    }),
+    signal
+  );
+}
@@ -0,0 +1,45 @@
+import { mapWithConcurrency } from '../concurrency';
+import type {
+  BaseApiClient,
+  MetadataGetLatestResponse,
+  MetadataGetManyArgs,
+  MetadataGetManyResponse,
+} from '.';
+
+const defaultBatchConcurrency = 8;
+
+/**
+ * Fetch many paths with one `metadataGetLatest` call each
+ * @param client - The client that fetches a single path
+ * @param args - The batch arguments
+ * @returns One settled result per path, in order
+ */
+export async function splitMetadataGetMany(
+  client: Pick<BaseApiClient, 'metadataGetLatest'>,
+  args: MetadataGetManyArgs
+): Promise<MetadataGetManyResponse> {
+  const {
+    concurrency = defaultBatchConcurrency,
+    guard = (_path, request) => request(),
+    params,
+    ...rest
+  } = args;
+  const results = await mapWithConcurrency(
+    params.query.paths,
+    concurrency,
+    async (path): Promise<PromiseSettledResult<MetadataGetLatestResponse>> => {
+      try {
+        const value = await guard(path, () =>
+          client.metadataGetLatest({
+            ...rest,
+            params: { path: params.path, query: { path } },
+          })
+        );
+        return { status: 'fulfilled', value };
+      } catch (reason) {
+        return { reason, status: 'rejected' };
+      }
+    }
+  );
+  return { results };
+}
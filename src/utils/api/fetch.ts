@@ -1,17 +1,82 @@
 import createClient, { type Client } from 'openapi-fetch';
 import type { paths } from '../../__generated__/api';
-import { type BaseApiClient, baseUrl, type MetadataGetLatestArgs } from '.';
+import {
+  type BaseApiClient,
+  baseUrl,
+  type MetadataGetLatestArgs,
+  type MetadataGetManyArgs,
+  type SitesGetSiteArgs,
+  type SitesRegisterBuildArgs,
+} from '.';
+import { splitMetadataGetMany } from './batch';
+import { type RequestOptions, withRetry } from './retry';
+
+export type FetchApiClientOptions = RequestOptions & {
+  /**
+   * Base URL of the generate-metadata API, e.g. a staging API or a proxy
+   * Defaults to the production API
+   */
+  baseUrl?: string;
+  /**
+   * Custom `fetch` implementation, e.g. for instrumentation or tests
+   */
+  fetch?: (input: Request) => Promise<Response>;
+  /**
+   * Headers sent with every API request
+   */
+  headers?: Record<string, string>;
+};
 
 export class FetchApiClient implements BaseApiClient {
   client: Client<paths>;
+  private readonly options: FetchApiClientOptions;
 
-  constructor() {
+  constructor(options: FetchApiClientOptions = {}) {
     this.client = createClient<paths>({
-      baseUrl,
+      baseUrl: options.baseUrl ?? baseUrl,
+      ...(options.fetch && { fetch: options.fetch }),
+      ...(options.headers && { headers: options.headers }),
     });
+    this.options = options;
   }
 
   metadataGetLatest(args: MetadataGetLatestArgs) {
-    return this.client.GET('/v1/{dsn}/metadata/get-latest', args);
+    return withRetry(
+      (signal) =>
+        this.client.GET(
+          '/v1/{dsn}/metadata/get-latest',
+          signal ? { ...args, signal } : args
+        ),
+      this.options,
+      args.signal ?? undefined
+    );
+  }
+
+  metadataGetMany(args: MetadataGetManyArgs) {
+    return splitMetadataGetMany(this, args);
+  }
+
+  sitesGetSite(args: SitesGetSiteArgs) {
+    return withRetry(
+      (signal) =>
+        this.client.GET(
+          '/v1/{dsn}/sites/get-site',
+          signal ? { ...args, signal } : args
+        ),
+      this.options,
+      args.signal ?? undefined
+    );
+  }
+
+  sitesRegisterBuild(args: SitesRegisterBuildArgs) {
+    return withRetry(
+      (signal) =>
+        this.client.POST(
+          '/v1/{dsn}/sites/register-build',
+          signal ? { ...args, signal } : args
+        ),
+      this.options,
+      args.signal ?? undefined
+    );
   }
 }
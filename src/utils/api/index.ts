@@ -9,17 +9,81 @@ export const baseUrl =
 export type MetadataGetLatestArgs = FetchOptions<
   paths['/v1/{dsn}/metadata/get-latest']['get']
 >;
-export type MetadataGetLatestResponse = Pick<
-  FetchResponse<
-    paths['/v1/{dsn}/metadata/get-latest']['get'],
-    {},
-    `${string}/${string}`
-  >,
-  'data' | 'error'
+
+// `response` is only available when the API is called directly, and
+// `status` is only set for failed requests made through a server function
+type ResponseStatus = { response?: Response; status?: number };
+
+export type MetadataGetLatestResponse = ResponseStatus &
+  Pick<
+    FetchResponse<
+      paths['/v1/{dsn}/metadata/get-latest']['get'],
+      {},
+      `${string}/${string}`
+    >,
+    'data' | 'error'
+  >;
+
+export type SitesGetSiteArgs = FetchOptions<
+  paths['/v1/{dsn}/sites/get-site']['get']
+>;
+export type SitesGetSiteResponse = ResponseStatus &
+  Pick<
+    FetchResponse<
+      paths['/v1/{dsn}/sites/get-site']['get'],
+      {},
+      `${string}/${string}`
+    >,
+    'data' | 'error'
+  >;
+
+export type SitesRegisterBuildArgs = FetchOptions<
+  paths['/v1/{dsn}/sites/register-build']['post']
 >;
+export type SitesRegisterBuildResponse = ResponseStatus &
+  Pick<
+    FetchResponse<
+      paths['/v1/{dsn}/sites/register-build']['post'],
+      {},
+      `${string}/${string}`
+    >,
+    'data' | 'error'
+  >;
+
+// The API has no batch endpoint yet, so clients split a batch into
+// `metadataGetLatest` calls behind the same signature
+export type MetadataGetManyArgs = Omit<MetadataGetLatestArgs, 'params'> & {
+  params: {
+    path: MetadataGetLatestArgs['params']['path'];
+    query: { paths: string[] };
+  };
+  /**
+   * Maximum number of requests in flight while the batch is split
+   */
+  concurrency?: number;
+  /**
+   * Wraps the request of each path while the batch is split, e.g. so an open
+   * circuit breaker stops the rest of the batch
+   */
+  guard?: (
+    path: string,
+    request: () => Promise<MetadataGetLatestResponse>
+  ) => Promise<MetadataGetLatestResponse>;
+};
+export type MetadataGetManyResponse = {
+  /**
+   * One result per path, in the same order as `params.query.paths`
+   */
+  results: PromiseSettledResult<MetadataGetLatestResponse>[];
+};
 
 export type BaseApiClient = {
   metadataGetLatest(
     args: MetadataGetLatestArgs
   ): Promise<MetadataGetLatestResponse>;
+  metadataGetMany(args: MetadataGetManyArgs): Promise<MetadataGetManyResponse>;
+  sitesGetSite(args: SitesGetSiteArgs): Promise<SitesGetSiteResponse>;
+  sitesRegisterBuild(
+    args: SitesRegisterBuildArgs
+  ): Promise<SitesRegisterBuildResponse>;
 };
@@ -0,0 +1,125 @@
+import { sleep, withTimeout } from '../abort';
+
+export type RetryOptions = {
+  /**
+   * Number of retries after the first attempt (defaults to 2)
+   */
+  retries?: number;
+  /**
+   * Base delay for the exponential backoff, in milliseconds (defaults to 100)
+   */
+  baseDelayMs?: number;
+  /**
+   * Maximum delay between attempts, in milliseconds (defaults to 2000)
+   * A `Retry-After` longer than this is not waited for
+   */
+  maxDelayMs?: number;
+};
+
+export type RequestOptions = {
+  /**
+   * Timeout for each attempt, in milliseconds
+   */
+  timeoutMs?: number;
+  /**
+   * Retry 5xx responses, 429 responses and network errors
+   */
+  retry?: RetryOptions;
+};
+
+type AttemptResult = {
+  response?: Response;
+};
+
+function getBackoffDelay(attempt: number, options: Required<RetryOptions>) {
+  // Exponential backoff with full jitter
+  const maxDelay = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt
+  );
+  return Math.random() * maxDelay;
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+// Returns the delay before the next attempt, or null if the response is final
+function getResponseRetryDelay(
+  response: Response | undefined,
+  attempt: number,
+  options: Required<RetryOptions>
+): number | null {
+  if (!response) {
+    return null;
+  }
+
+  if (response.status === 429) {
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    if (retryAfter === null) {
+      return getBackoffDelay(attempt, options);
+    }
+    return retryAfter <= options.maxDelayMs ? retryAfter : null;
+  }
+
+  if (response.status >= 500) {
+    return getBackoffDelay(attempt, options);
+  }
+
+  return null;
+}
+
+/**
+ * Run a request with a per-attempt timeout, retrying failed attempts
+ * @param request - Performs one attempt using the given signal
+ * @param options - Timeout and retry options
+ * @param signal - Caller signal that cancels the request and any retries
+ * @returns The result of the last attempt
+ */
+export async function withRetry<T extends AttemptResult>(
+  request: (attemptSignal: AbortSignal | undefined) => Promise<T>,
+  options: RequestOptions,
+  signal?: AbortSignal
+): Promise<T> {
+  const retryOptions: Required<RetryOptions> = {
+    baseDelayMs: options.retry?.baseDelayMs ?? 100,
+    maxDelayMs: options.retry?.maxDelayMs ?? 2000,
+    retries: options.retry ? (options.retry.retries ?? 2) : 0,
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    const attemptSignal = withTimeout(signal, options.timeoutMs);
+    let delay: number | null;
+
+    try {
+      const result = await request(attemptSignal.signal);
+      delay = getResponseRetryDelay(result.response, attempt, retryOptions);
+      if (delay === null || attempt >= retryOptions.retries) {
+        return result;
+      }
+    } catch (error) {
+      // Network errors and timeouts are retried, caller aborts are not
+      if (signal?.aborted || attempt >= retryOptions.retries) {
+        throw error;
+      }
+      delay = getBackoffDelay(attempt, retryOptions);
+    } finally {
+      attemptSignal.cleanup();
+    }
+
+    await sleep(delay, signal);
+  }
+}
@@ -4,7 +4,12 @@ import type {
   BaseApiClient,
   MetadataGetLatestArgs,
   MetadataGetLatestResponse,
+  MetadataGetManyArgs,
+  SitesGetSiteArgs,
+  SitesGetSiteResponse,
+  SitesRegisterBuildResponse,
 } from '.';
+import { splitMetadataGetMany } from './batch';
 
 export type ApiMethod = keyof BaseApiClient;
 
@@ -13,6 +18,10 @@ const schema = z.union([
     args: z.any() as z.ZodType<MetadataGetLatestArgs>,
     type: z.literal('metadataGetLatest'),
   }),
+  z.object({
+    args: z.any() as z.ZodType<SitesGetSiteArgs>,
+    type: z.literal('sitesGetSite'),
+  }),
   z.object({
     type: z.literal('placeholder'),
   }),
@@ -22,7 +31,7 @@ export const validator = (data: unknown) => schema.parse(data);
 export type ServerFnType = OptionalFetcher<
   undefined,
   typeof validator,
-  MetadataGetLatestResponse,
+  MetadataGetLatestResponse | SitesGetSiteResponse,
   'data'
 >;
 
@@ -34,12 +43,42 @@ export class TanstackStartApiClient implements BaseApiClient {
   }
 
   async metadataGetLatest(args: MetadataGetLatestArgs) {
+    // Signals cannot be serialized, so they are passed to the fetcher instead
+    const { signal, ...rest } = args;
     const result = await this.serverFn({
       data: {
-        args,
+        args: rest,
         type: 'metadataGetLatest',
       },
+      ...(signal && { signal }),
     });
     return result as MetadataGetLatestResponse;
   }
+
+  metadataGetMany(args: MetadataGetManyArgs) {
+    // Each path is fetched with its own server function call
+    return splitMetadataGetMany(this, args);
+  }
+
+  async sitesGetSite(args: SitesGetSiteArgs) {
+    const { signal, ...rest } = args;
+    const result = await this.serverFn({
+      data: {
+        args: rest,
+        type: 'sitesGetSite',
+      },
+      ...(signal && { signal }),
+    });
+    return result as SitesGetSiteResponse;
+  }
+
+  // The server function can be called by any visitor, so it must never sign
+  // writes with the API key. Register builds from build tooling instead.
+  sitesRegisterBuild(): Promise<SitesRegisterBuildResponse> {
+    return Promise.reject(
+      new Error(
+        'Builds cannot be registered through the server function, use a client with an API key in build tooling'
+      )
+    );
+  }
 }
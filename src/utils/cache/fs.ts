@@ -0,0 +1,139 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import { createSha256 } from '../crypto';
+import type { MetadataCacheEntry, MetadataCacheStore } from '.';
+
+export type FileSystemCacheStoreOptions = {
+  /**
+   * Directory to store cache entries in, one JSON file per entry
+   */
+  directory: string;
+};
+
+const fileExtension = '.json';
+
+// Filenames are limited to 255 bytes, and temporary files add a UUID suffix
+const maxEncodedKeyLength = 200;
+
+// `encodeURIComponent` escapes `#`, so encoded keys never start with it
+const hashedFilePrefix = '#';
+
+// Files named after a hash hold their key, so `keys()` can list it
+type HashedFile = { key: string; entry: MetadataCacheEntry };
+
+function isNotFoundError(error: unknown): boolean {
+  return (
+    error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT'
+  );
+}
+
+/**
+ * Cache store that persists entries to the local filesystem, so they survive
+ * restarts and can be shared by processes on the same machine
+ */
+export class FileSystemCacheStore implements MetadataCacheStore {
+  private readonly directory: string;
+
+  constructor(options: FileSystemCacheStoreOptions) {
+    this.directory = options.directory;
+  }
+
+  async get(key: string): Promise<MetadataCacheEntry | undefined> {
+    const file = await this.getFileName(key);
+    try {
+      const contents = await readFile(join(this.directory, file), 'utf8');
+      if (!file.startsWith(hashedFilePrefix)) {
+        return JSON.parse(contents) as MetadataCacheEntry;
+      }
+      const hashed = JSON.parse(contents) as HashedFile;
+      return hashed.key === key ? hashed.entry : undefined;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: MetadataCacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial entry
+    const file = await this.getFileName(key);
+    const filePath = join(this.directory, file);
+    const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+    const contents: MetadataCacheEntry | HashedFile = file.startsWith(
+      hashedFilePrefix
+    )
+      ? { entry, key }
+      : entry;
+    await writeFile(tempPath, JSON.stringify(contents), 'utf8');
+    await rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(join(this.directory, await this.getFileName(key)), {
+      force: true,
+    });
+  }
+
+  async clear(): Promise<void> {
+    const files = await this.readEntryFiles();
+    await Promise.all(
+      files.map((file) => rm(join(this.directory, file), { force: true }))
+    );
+  }
+
+  async keys(): Promise<string[]> {
+    const files = await this.readEntryFiles();
+    const keys = await Promise.all(
+      files.map((file) =>
+        file.startsWith(hashedFilePrefix)
+          ? this.readHashedKey(file)
+          : decodeURIComponent(file.slice(0, -fileExtension.length))
+      )
+    );
+    return keys.filter((key) => key !== undefined);
+  }
+
+  // Long keys are hashed so their filename stays within the length limit
+  private async getFileName(key: string): Promise<string> {
+    const encoded = encodeURIComponent(key);
+    if (encoded.length <= maxEncodedKeyLength) {
+      return `${encoded}${fileExtension}`;
+    }
+    return `${hashedFilePrefix}${await createSha256(key)}${fileExtension}`;
+  }
+
+  // A file removed since the directory was listed has no key
+  private async readHashedKey(file: string): Promise<string | undefined> {
+    try {
+      const contents = await readFile(join(this.directory, file), 'utf8');
+      return (JSON.parse(contents) as HashedFile).key;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async readEntryFiles(): Promise<string[]> {
+    try {
+      const files = await readdir(this.directory);
+      return files.filter((file) => file.endsWith(fileExtension));
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
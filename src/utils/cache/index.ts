@@ -0,0 +1,155 @@
+import type { MetadataApiResponse } from '../..';
+import { createSha256 } from '../crypto';
+import type { LruCacheOptions, LruCacheStats } from './lru';
+
+export type MetadataCacheOptions = LruCacheOptions & {
+  /**
+   * How long (in milliseconds) a cached entry is considered fresh.
+   * When omitted, entries never expire.
+   */
+  ttl?: number;
+  /**
+   * How long (in milliseconds) after `ttl` a stale entry is still served
+   * while it is refreshed in the background. Entries older than
+   * `ttl + staleWhileRevalidate` are never served.
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Where cached entries are stored. Defaults to an in-memory store bounded
+   * by `maxEntries` and `maxBytes`.
+   */
+  store?: MetadataCacheStore;
+};
+
+export type MetadataCacheEntry = {
+  value: MetadataApiResponse;
+  storedAt: number;
+  /**
+   * When the entry can no longer be served, i.e. `storedAt + ttl +
+   * staleWhileRevalidate`, so stores can expire it. Unset when the cache has
+   * no `ttl`.
+   */
+  expiresAt?: number;
+};
+
+/**
+ * Storage backend for cached metadata
+ * Implement this to share the cache between instances (e.g. Redis)
+ */
+export type MetadataCacheStore = {
+  get(key: string): Promise<MetadataCacheEntry | undefined>;
+  set(key: string, entry: MetadataCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  keys(): Promise<string[]>;
+  getStats?(): LruCacheStats;
+};
+
+/**
+ * Persisted copy of successful API responses, served when the API fails
+ */
+export type MetadataSnapshotOptions = {
+  /**
+   * Where successful responses are written, e.g. a `FileSystemCacheStore`
+   */
+  store: MetadataCacheStore;
+  /**
+   * Maximum age (in milliseconds) of a snapshot entry that may be served.
+   * When omitted, entries of any age are served.
+   */
+  maxAge?: number;
+};
+
+export type MetadataCacheEntryState = 'fresh' | 'stale' | 'expired';
+
+/**
+ * Determine whether a cache entry can be served as-is, served while being
+ * refreshed, or must be fetched again
+ * @param entry - The cache entry
+ * @param options - The cache options
+ * @param now - The current time in milliseconds
+ * @returns The state of the entry
+ */
+export function getCacheEntryState(
+  entry: Pick<MetadataCacheEntry, 'storedAt'>,
+  options: MetadataCacheOptions,
+  now = Date.now()
+): MetadataCacheEntryState {
+  const { ttl, staleWhileRevalidate = 0 } = options;
+
+  if (ttl === undefined) {
+    return 'fresh';
+  }
+
+  const age = now - entry.storedAt;
+  if (age < ttl) {
+    return 'fresh';
+  }
+  if (age < ttl + staleWhileRevalidate) {
+    return 'stale';
+  }
+  return 'expired';
+}
+
+/**
+ * A cached response, as listed by `client.entries()`
+ */
+export type CachedMetadata = MetadataCacheEntry & {
+  dsn: string;
+  path: string;
+  state: MetadataCacheEntryState;
+};
+
+/**
+ * Cached entries to target, e.g. when clearing the cache
+ * Omit `apiKey` to target the entries of every API key used with the DSN
+ */
+export type CacheScope = {
+  dsn: string;
+  apiKey?: string;
+};
+
+/**
+ * Name of the cache partition for a DSN and the API key used with it, so a
+ * response is never served to a call made with other credentials
+ * @param dsn - The site's DSN
+ * @param apiKey - The effective API key, which is hashed
+ * @returns The partition, e.g. `my-dsn:4f2a9c0e1b7d3a58`
+ */
+export async function getCachePartition(
+  dsn: string,
+  apiKey: string | undefined
+): Promise<string> {
+  const credentials =
+    apiKey === undefined
+      ? 'anonymous'
+      : (await createSha256(apiKey)).slice(0, 16);
+  return `${dsn}:${credentials}`;
+}
+
+/**
+ * Cache key of a normalized path in a partition
+ */
+export function getCacheKey(partition: string, normalizedPath: string): string {
+  return `${partition}${normalizedPath}`;
+}
+
+/**
+ * Split a cache key into its DSN, partition and normalized path
+ * @returns The parts, or `undefined` for keys not written by the client
+ */
+export function parseCacheKey(
+  key: string
+): { dsn: string; partition: string; path: string } | undefined {
+  const pathStart = key.indexOf('/');
+  const partition = key.slice(0, pathStart);
+  const dsnEnd = partition.lastIndexOf(':');
+  if (pathStart === -1 || dsnEnd === -1) {
+    return;
+  }
+  return {
+    dsn: partition.slice(0, dsnEnd),
+    partition,
+    path: key.slice(pathStart),
+  };
+}
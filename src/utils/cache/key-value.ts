@@ -0,0 +1,103 @@
+import type { MetadataCacheEntry, MetadataCacheStore } from '.';
+
+/**
+ * Minimal key-value client, matching `@upstash/redis`
+ * Other Redis-style clients such as `ioredis` and `redis` need a thin wrapper
+ * for `set` and `scan`
+ */
+export type KeyValueClient = {
+  get(key: string): Promise<unknown>;
+  /**
+   * Write a value, expiring it after `px` milliseconds when given
+   */
+  set(key: string, value: string, options?: { px: number }): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+  /**
+   * Iterate over the keys matching a pattern, like Redis `SCAN`
+   * @returns The cursor for the next call (`0` when done) and a page of keys
+   */
+  scan(
+    cursor: string,
+    options: { match: string; count: number }
+  ): Promise<[string | number, string[]]>;
+};
+
+const scanCount = 100;
+
+export type KeyValueCacheStoreOptions = {
+  client: KeyValueClient;
+  /**
+   * Prefix for every key written by the store (defaults to `generate-metadata:`)
+   */
+  prefix?: string;
+};
+
+/**
+ * Cache store backed by a shared key-value database, so that every instance
+ * sees the same entries and cache clears reach all of them
+ */
+export class KeyValueCacheStore implements MetadataCacheStore {
+  private readonly client: KeyValueClient;
+  private readonly prefix: string;
+
+  constructor(options: KeyValueCacheStoreOptions) {
+    this.client = options.client;
+    this.prefix = options.prefix ?? 'generate-metadata:';
+  }
+
+  async get(key: string): Promise<MetadataCacheEntry | undefined> {
+    const value = await this.client.get(this.prefix + key);
+    if (value === null || value === undefined) {
+      return;
+    }
+
+    // Some clients (e.g. @upstash/redis) deserialize JSON automatically
+    return (
+      typeof value === 'string' ? JSON.parse(value) : value
+    ) as MetadataCacheEntry;
+  }
+
+  async set(key: string, entry: MetadataCacheEntry): Promise<void> {
+    const value = JSON.stringify(entry);
+    if (entry.expiresAt === undefined) {
+      await this.client.set(this.prefix + key, value);
+      return;
+    }
+
+    // Redis rejects an expiry of zero, so keep entries that are already due
+    // for a millisecond
+    const px = Math.max(entry.expiresAt - Date.now(), 1);
+    await this.client.set(this.prefix + key, value, { px });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.scanKeys();
+    await Promise.all(keys.map((key) => this.client.del(key)));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.scanKeys();
+    return keys.map((key) => key.slice(this.prefix.length));
+  }
+
+  // Page through the keys with SCAN, as KEYS blocks the database while it runs
+  private async scanKeys(): Promise<string[]> {
+    const keys = new Set<string>();
+    let cursor = '0';
+    do {
+      const [next, page] = await this.client.scan(cursor, {
+        count: scanCount,
+        match: `${this.prefix}*`,
+      });
+      for (const key of page) {
+        keys.add(key);
+      }
+      cursor = String(next);
+    } while (cursor !== '0');
+    return [...keys];
+  }
+}
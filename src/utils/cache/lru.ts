@@ -0,0 +1,115 @@
+import type { MetadataCacheEntry } from '.';
+
+export type LruCacheOptions = {
+  /**
+   * Maximum number of entries to keep
+   */
+  maxEntries?: number;
+  /**
+   * Maximum total size of the entries to keep, in bytes of serialized JSON
+   */
+  maxBytes?: number;
+};
+
+export type LruCacheStats = {
+  entries: number;
+  bytes: number;
+  evictions: number;
+};
+
+const encoder = new TextEncoder();
+
+function getEntrySize(entry: MetadataCacheEntry): number {
+  return encoder.encode(JSON.stringify(entry.value)).byteLength;
+}
+
+/**
+ * Least-recently-used cache for metadata entries
+ * Evicts the least recently read or written entries once `maxEntries` or
+ * `maxBytes` is exceeded
+ */
+export class LruCache {
+  private readonly entries = new Map<
+    string,
+    { entry: MetadataCacheEntry; size: number }
+  >();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private bytes = 0;
+  private evictions = 0;
+
+  constructor(options: LruCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Number.POSITIVE_INFINITY;
+    this.maxBytes = options.maxBytes ?? Number.POSITIVE_INFINITY;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): MetadataCacheEntry | undefined {
+    const item = this.entries.get(key);
+    if (!item) {
+      return;
+    }
+
+    // Move the entry to the end so it is evicted last
+    this.entries.delete(key);
+    this.entries.set(key, item);
+    return item.entry;
+  }
+
+  set(key: string, entry: MetadataCacheEntry): void {
+    this.delete(key);
+
+    const size = getEntrySize(entry);
+    if (size > this.maxBytes) {
+      // The entry can never fit, so storing it would only evict everything else
+      this.evictions++;
+      return;
+    }
+
+    this.entries.set(key, { entry, size });
+    this.bytes += size;
+    this.evict();
+  }
+
+  delete(key: string): boolean {
+    const item = this.entries.get(key);
+    if (!item) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.bytes -= item.size;
+    return true;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  getStats(): LruCacheStats {
+    return {
+      bytes: this.bytes,
+      entries: this.entries.size,
+      evictions: this.evictions,
+    };
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) {
+        return;
+      }
+      this.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+}
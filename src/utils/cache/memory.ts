@@ -0,0 +1,40 @@
+import type { MetadataCacheEntry, MetadataCacheStore } from '.';
+import { LruCache, type LruCacheOptions, type LruCacheStats } from './lru';
+
+/**
+ * In-memory cache store, local to a single client instance
+ */
+export class MemoryCacheStore implements MetadataCacheStore {
+  private readonly lru: LruCache;
+
+  constructor(options: LruCacheOptions = {}) {
+    this.lru = new LruCache(options);
+  }
+
+  get(key: string): Promise<MetadataCacheEntry | undefined> {
+    return Promise.resolve(this.lru.get(key));
+  }
+
+  set(key: string, entry: MetadataCacheEntry): Promise<void> {
+    this.lru.set(key, entry);
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.lru.delete(key);
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.lru.clear();
+    return Promise.resolve();
+  }
+
+  keys(): Promise<string[]> {
+    return Promise.resolve(this.lru.keys());
+  }
+
+  getStats(): LruCacheStats {
+    return this.lru.getStats();
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  GenerateMetadataError,
+  NetworkError,
+  TimeoutError,
+  toGenerateMetadataError,
+} from './errors';
+
+export type CircuitBreakerState = 'closed' | 'open' | 'half-open';
+
+export type CircuitBreakerStateChange = {
+  previousState: CircuitBreakerState;
+  state: CircuitBreakerState;
+  failures: number;
+};
+
+export type CircuitBreakerOptions = {
+  /**
+   * Number of consecutive failures that opens the circuit (defaults to 5)
+   */
+  failureThreshold?: number;
+  /**
+   * How long the circuit stays open before a trial request is allowed,
+   * in milliseconds (defaults to 30000)
+   */
+  cooldownMs?: number;
+  /**
+   * Called whenever the circuit opens, half-opens or closes
+   */
+  onStateChange?: (change: CircuitBreakerStateChange) => void;
+};
+
+export class CircuitBreakerOpenError extends GenerateMetadataError {
+  constructor() {
+    super('Circuit breaker is open, skipping request');
+    this.name = 'CircuitBreakerOpenError';
+  }
+}
+
+/**
+ * Check whether an error means the API is unavailable
+ * Client errors such as 401 or 404 show the API is answering, so only
+ * network errors, timeouts and 5xx responses count toward opening the circuit
+ * @param err - The error the request failed with
+ * @returns Whether the error counts as a failure
+ */
+export function isCircuitBreakerFailure(err: unknown): boolean {
+  const error = toGenerateMetadataError(err);
+  return (
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    (error.status !== undefined && error.status >= 500)
+  );
+}
+
+/**
+ * Circuit breaker that stops calling a failing API for a cooldown period
+ * After the cooldown, a single trial request decides whether to close the
+ * circuit again or keep it open for another cooldown
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly onStateChange: CircuitBreakerOptions['onStateChange'];
+  private currentState: CircuitBreakerState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldownMs = options.cooldownMs ?? 30_000;
+    this.onStateChange = options.onStateChange;
+  }
+
+  get state(): CircuitBreakerState {
+    return this.currentState;
+  }
+
+  /**
+   * Check whether a request may be made, moving to half-open once the
+   * cooldown has elapsed
+   * @returns Whether the request may be made
+   */
+  canRequest(): boolean {
+    if (
+      this.currentState === 'open' &&
+      Date.now() - this.openedAt >= this.cooldownMs
+    ) {
+      this.transition('half-open');
+    }
+
+    if (this.currentState === 'open') {
+      return false;
+    }
+
+    if (this.currentState === 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.trialInFlight = false;
+    this.failures = 0;
+    if (this.currentState !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.failures++;
+    if (
+      this.currentState === 'half-open' ||
+      (this.currentState === 'closed' && this.failures >= this.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Record a failed request, counting it as a failure only when the API was
+   * unavailable and as a success otherwise
+   * @param err - The error the request failed with
+   */
+  recordError(err: unknown): void {
+    if (isCircuitBreakerFailure(err)) {
+      this.recordFailure();
+    } else {
+      this.recordSuccess();
+    }
+  }
+
+  /**
+   * Forget a request that was cancelled before it finished, so another
+   * trial can be made while half-open
+   */
+  cancelRequest(): void {
+    this.trialInFlight = false;
+  }
+
+  private transition(state: CircuitBreakerState): void {
+    const previousState = this.currentState;
+    this.currentState = state;
+    try {
+      this.onStateChange?.({ failures: this.failures, previousState, state });
+    } catch {
+      // A throwing callback must not break request handling
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Map over items with at most `concurrency` calls in flight at once
+ * @param items - The items to map over
+ * @param concurrency - The maximum number of concurrent calls
+ * @param fn - The async mapper
+ * @returns The results, in the same order as the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  async function worker() {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
@@ -3,6 +3,12 @@
  * Works in both Node.js and browser environments
  */
 
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
 /**
  * Create HMAC-SHA256 signature
  * @param secret - The secret key
@@ -30,13 +36,20 @@ export async function createHmacSha256(
   // Sign the message
   const signature = await crypto.subtle.sign('HMAC', key, messageData);
 
-  // Convert to hex string
-  const hashArray = Array.from(new Uint8Array(signature));
-  const hashHex = hashArray
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
+  return toHex(signature);
+}
 
-  return hashHex;
+/**
+ * Create a SHA-256 hash
+ * @param message - The message to hash
+ * @returns Hex-encoded hash
+ */
+export async function createSha256(message: string): Promise<string> {
+  const hash = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(message)
+  );
+  return toHex(hash);
 }
 
 const sha256Regex = /^sha256=(.+)$/;
@@ -3,25 +3,165 @@
  * Works in both Node.js and browser environments
  */
 
-export type DebugFunction = (...args: any[]) => void;
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Destination for log messages, e.g. `console` or a pino logger
+ */
+export type Logger = Record<LogLevel, (...args: any[]) => void>;
+
+/**
+ * Logs at the `debug` level when called, with a method per level
+ */
+export type DebugFunction = ((...args: any[]) => void) &
+  Record<LogLevel, (...args: any[]) => void> & {
+    /**
+     * Redact another secret, e.g. an API key passed with a single request
+     */
+    addSecret: (secret: string | undefined) => void;
+  };
+
+export type DebugOptions = {
+  /**
+   * Whether logging is enabled (defaults to false)
+   */
+  enabled?: boolean;
+  /**
+   * Minimum level that is logged (defaults to `debug`)
+   */
+  level?: LogLevel;
+  /**
+   * Where messages are written (defaults to the console)
+   */
+  logger?: Logger;
+  /**
+   * Secret values, such as API keys, that are never written
+   */
+  secrets?: (string | undefined)[];
+};
+
+const levels: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const redacted = '[REDACTED]';
+const secretKeyPattern = /^(api[-_]?key|authorization|.*secret.*|.*token.*)$/i;
+const bearerPattern = /Bearer [^\s"']+/g;
+const maxRedactionDepth = 5;
+
+/**
+ * Replace secrets in a value before it is logged
+ * @param value - The value to redact
+ * @param secrets - Secret values to replace wherever they appear in strings
+ * @param depth - Current depth, to stop on deep or circular objects
+ * @returns A copy of the value without secrets
+ */
+export function redact(value: unknown, secrets: string[], depth = 0): unknown {
+  if (typeof value === 'string') {
+    let result = value.replace(bearerPattern, `Bearer ${redacted}`);
+    for (const secret of secrets) {
+      result = result.split(secret).join(redacted);
+    }
+    return result;
+  }
+
+  if (
+    depth >= maxRedactionDepth ||
+    value === null ||
+    typeof value !== 'object'
+  ) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, secrets, depth + 1));
+  }
+
+  if (value instanceof Error) {
+    return redactError(value, secrets, depth);
+  }
+
+  if (Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        secretKeyPattern.test(key) && item !== undefined
+          ? redacted
+          : redact(item, secrets, depth + 1),
+      ])
+    );
+  }
+
+  return value;
+}
+
+// Copy an error with its message, stack, cause and other own properties
+// redacted, keeping its class so loggers still print it as an error
+function redactError(error: Error, secrets: string[], depth: number): Error {
+  const copy = Object.create(Object.getPrototypeOf(error)) as Error;
+  for (const key of Object.getOwnPropertyNames(error)) {
+    const item: unknown = Reflect.get(error, key);
+    Object.defineProperty(copy, key, {
+      configurable: true,
+      enumerable: Object.prototype.propertyIsEnumerable.call(error, key),
+      value:
+        secretKeyPattern.test(key) && item !== undefined
+          ? redacted
+          : redact(item, secrets, depth + 1),
+      writable: true,
+    });
+  }
+  return copy;
+}
 
 /**
  * Create a debug function for a given namespace
  * @param namespace - The debug namespace
- * @param enabled - Whether debug is enabled (defaults to false)
+ * @param options - Whether debug is enabled, or the debug options
  * @returns A debug function
  */
-export function createDebug(namespace: string, enabled = false): DebugFunction {
-  // Return a no-op function if debug is not enabled
-  if (!enabled) {
-    return () => {};
+export function createDebug(
+  namespace: string,
+  options: boolean | DebugOptions = false
+): DebugFunction {
+  const {
+    enabled = false,
+    level: minLevel = 'debug',
+    logger = console,
+    secrets = [],
+  } = typeof options === 'boolean' ? { enabled: options } : options;
+  const knownSecrets = new Set<string>();
+  const addSecret = (secret: string | undefined) => {
+    if (secret) {
+      knownSecrets.add(secret);
+    }
+  };
+  for (const secret of secrets) {
+    addSecret(secret);
   }
+  const minLevelIndex = levels.indexOf(minLevel);
+
+  const createLog = (level: LogLevel) => {
+    // Return a no-op function if debug is not enabled for this level
+    if (!enabled || levels.indexOf(level) < minLevelIndex) {
+      return () => {};
+    }
 
-  // Return a debug function that logs with the namespace prefix
-  return (..._args: any[]) => {
-    const timestamp = new Date().toISOString();
-    const _prefix = `[${timestamp}] ${namespace}`;
+    // Return a log function that writes with the namespace prefix
+    return (...args: any[]) => {
+      const timestamp = new Date().toISOString();
+      const prefix = `[${timestamp}] ${namespace}`;
+      // Longer secrets first, so one containing another is fully replaced
+      const sorted = [...knownSecrets].sort((a, b) => b.length - a.length);
+      logger[level](prefix, ...args.map((arg) => redact(arg, sorted)));
+    };
   };
+
+  return Object.assign(createLog('debug'), {
+    addSecret,
+    debug: createLog('debug'),
+    error: createLog('error'),
+    info: createLog('info'),
+    warn: createLog('warn'),
+  });
 }
 
 // Re-export as default for compatibility with the debug module
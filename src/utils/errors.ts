@@ -0,0 +1,119 @@
+export type GenerateMetadataErrorOptions = {
+  /**
+   * HTTP status of the API response, when there was one
+   */
+  status?: number;
+  cause?: unknown;
+};
+
+/**
+ * Base class for every error thrown by generate-metadata
+ */
+export class GenerateMetadataError extends Error {
+  readonly status: number | undefined;
+
+  constructor(message: string, options: GenerateMetadataErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerateMetadataError';
+    this.status = options.status;
+  }
+}
+
+/**
+ * The API key was missing, invalid or not allowed to access the DSN
+ */
+export class GenerateMetadataAuthError extends GenerateMetadataError {
+  constructor(message: string, options?: GenerateMetadataErrorOptions) {
+    super(message, options);
+    this.name = 'GenerateMetadataAuthError';
+  }
+}
+
+/**
+ * The DSN or the requested resource does not exist
+ */
+export class NotFoundError extends GenerateMetadataError {
+  constructor(message: string, options?: GenerateMetadataErrorOptions) {
+    super(message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The API could not be reached
+ */
+export class NetworkError extends GenerateMetadataError {
+  constructor(message: string, options?: GenerateMetadataErrorOptions) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The API did not answer in time
+ */
+export class TimeoutError extends GenerateMetadataError {
+  constructor(message: string, options?: GenerateMetadataErrorOptions) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The API answered with an unexpected status or without data
+ */
+export class InvalidResponseError extends GenerateMetadataError {
+  constructor(message: string, options?: GenerateMetadataErrorOptions) {
+    super(message, options);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * Create a typed error for an API response that has no data
+ * @param response - The API response
+ * @returns The error to throw
+ */
+export function createResponseError(response: {
+  error?: unknown;
+  response?: Response;
+  status?: number;
+}): GenerateMetadataError {
+  const status = response.status ?? response.response?.status;
+  const options = { cause: response.error, status };
+
+  if (status === 401 || status === 403) {
+    return new GenerateMetadataAuthError(
+      `API request was not authorized (${status})`,
+      options
+    );
+  }
+  if (status === 404) {
+    return new NotFoundError('API resource was not found (404)', options);
+  }
+  if (status === 408 || status === 504) {
+    return new TimeoutError(`API request timed out (${status})`, options);
+  }
+  return new InvalidResponseError(
+    status === undefined
+      ? 'API returned no data'
+      : `API returned an unexpected status (${status})`,
+    options
+  );
+}
+
+/**
+ * Wrap an error thrown while calling the API in a typed error
+ * @param err - The thrown error
+ * @returns The typed error
+ */
+export function toGenerateMetadataError(err: unknown): GenerateMetadataError {
+  if (err instanceof GenerateMetadataError) {
+    return err;
+  }
+  if (err instanceof Error && err.name === 'TimeoutError') {
+    return new TimeoutError('API request timed out', { cause: err });
+  }
+  const reason = err instanceof Error ? `: ${err.message}` : '';
+  return new NetworkError(`Failed to reach the API${reason}`, { cause: err });
+}
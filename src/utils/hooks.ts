@@ -0,0 +1,76 @@
+import type { MetadataCacheEntryState } from './cache';
+
+type MetadataEvent = {
+  path: string;
+  dsn: string;
+};
+
+export type CacheHitEvent = MetadataEvent & {
+  /**
+   * `snapshot` when the API failed and the metadata was read from the
+   * snapshot store instead
+   */
+  state: Exclude<MetadataCacheEntryState, 'expired'> | 'snapshot';
+  revisionId: string | undefined;
+};
+
+export type CacheMissEvent = MetadataEvent & {
+  reason: 'missing' | 'expired';
+};
+
+export type FetchStartEvent = MetadataEvent;
+
+export type FetchSuccessEvent = MetadataEvent & {
+  /**
+   * How long the API request took, in milliseconds
+   */
+  duration: number;
+  revisionId: string | undefined;
+};
+
+export type FetchErrorEvent = MetadataEvent & {
+  duration: number;
+  error: unknown;
+};
+
+export type FallbackUsedEvent = {
+  path: string;
+  dsn: string | undefined;
+  /**
+   * The error that caused the fallback, when there was one
+   */
+  error: unknown;
+};
+
+export type WebhookReceivedEvent = {
+  type: string;
+  path: string | null | undefined;
+  dsn: string | undefined;
+  revisionId: string | undefined;
+};
+
+export type RevalidateEvent = {
+  path: string | null;
+  dsn: string | undefined;
+  revisionId: string | undefined;
+  duration: number;
+};
+
+/**
+ * Callbacks for logging and metrics
+ * Errors thrown by a hook are logged in debug mode and otherwise ignored
+ */
+export type MetadataHooks = {
+  onCacheHit?: (event: CacheHitEvent) => void | Promise<void>;
+  onCacheMiss?: (event: CacheMissEvent) => void | Promise<void>;
+  onFetchStart?: (event: FetchStartEvent) => void | Promise<void>;
+  onFetchSuccess?: (event: FetchSuccessEvent) => void | Promise<void>;
+  onFetchError?: (event: FetchErrorEvent) => void | Promise<void>;
+  onFallbackUsed?: (event: FallbackUsedEvent) => void | Promise<void>;
+  onWebhookReceived?: (event: WebhookReceivedEvent) => void | Promise<void>;
+  onRevalidate?: (event: RevalidateEvent) => void | Promise<void>;
+};
+
+export type MetadataHookEvent<Name extends keyof MetadataHooks> = Parameters<
+  NonNullable<MetadataHooks[Name]>
+>[0];
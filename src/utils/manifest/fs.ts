@@ -0,0 +1,31 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { isMetadataManifest, type MetadataManifest } from '.';
+
+/**
+ * Write a metadata manifest to disk
+ * @param file - The file to write, e.g. `./src/metadata-manifest.json`
+ * @param manifest - The manifest returned by `client.prefetch()`
+ */
+export async function writeMetadataManifest(
+  file: string,
+  manifest: MetadataManifest
+): Promise<void> {
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+}
+
+/**
+ * Read a metadata manifest from disk
+ * @param file - The file to read
+ * @returns The manifest
+ */
+export async function readMetadataManifest(
+  file: string
+): Promise<MetadataManifest> {
+  const manifest: unknown = JSON.parse(await readFile(file, 'utf8'));
+  if (!isMetadataManifest(manifest)) {
+    throw new Error(`${file} is not a valid metadata manifest`);
+  }
+  return manifest;
+}
@@ -0,0 +1,38 @@
+import type { MetadataApiResponse, Site } from '../..';
+
+/**
+ * Metadata for a fixed set of paths, generated at build time by
+ * `client.prefetch()` and served without calling the API
+ */
+export type MetadataManifest = {
+  /**
+   * Format version, checked against `manifestVersion` when the manifest is
+   * used
+   */
+  version: number;
+  dsn: string;
+  generatedAt: string;
+  entries: Record<string, MetadataApiResponse>;
+  site?: Site;
+};
+
+export const manifestVersion = 1;
+
+/**
+ * Check that a parsed value is a metadata manifest this version understands
+ * @param value - The parsed value
+ * @returns Whether the value is a metadata manifest
+ */
+export function isMetadataManifest(value: unknown): value is MetadataManifest {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const manifest = value as Partial<MetadataManifest>;
+  return (
+    manifest.version === manifestVersion &&
+    typeof manifest.dsn === 'string' &&
+    typeof manifest.entries === 'object' &&
+    manifest.entries !== null
+  );
+}
@@ -0,0 +1,311 @@
+import type { LruCacheStats } from './cache/lru';
+import type { MetadataHookEvent, MetadataHooks } from './hooks';
+
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Destination for metrics, e.g. an adapter for prom-client, StatsD or
+ * OpenTelemetry metrics
+ */
+export type MetricsSink = {
+  counter(name: string, value: number, labels?: MetricLabels): void;
+  histogram(name: string, value: number, labels?: MetricLabels): void;
+  gauge(name: string, value: number, labels?: MetricLabels): void;
+};
+
+export type MetadataClientStats = {
+  cache: {
+    /**
+     * Lookups served from the cache, including stale entries
+     */
+    hits: number;
+    staleHits: number;
+    /**
+     * Lookups served from the snapshot after the API failed. They were
+     * already counted as misses, so they are not part of `hits`.
+     */
+    snapshotHits: number;
+    misses: number;
+    hitRatio: number;
+    entries?: number;
+    bytes?: number;
+    evictions?: number;
+  };
+  api: {
+    requests: number;
+    errors: number;
+    errorRate: number;
+    /**
+     * Latency of recent API requests, in milliseconds
+     */
+    latency: {
+      count: number;
+      sum: number;
+      p50: number;
+      p95: number;
+      p99: number;
+    };
+  };
+  fallbacks: number;
+  webhooks: number;
+  revalidations: number;
+};
+
+export const metricNames = {
+  apiErrors: 'generate_metadata_api_errors_total',
+  apiLatency: 'generate_metadata_api_request_duration_ms',
+  apiRequests: 'generate_metadata_api_requests_total',
+  cacheEntries: 'generate_metadata_cache_entries',
+  cacheHits: 'generate_metadata_cache_hits_total',
+  cacheMisses: 'generate_metadata_cache_misses_total',
+  fallbacks: 'generate_metadata_fallbacks_total',
+  revalidations: 'generate_metadata_revalidations_total',
+  snapshotHits: 'generate_metadata_snapshot_hits_total',
+  webhooks: 'generate_metadata_webhooks_total',
+} as const;
+
+// Percentiles are computed over the most recent requests only
+const maxLatencySamples = 1024;
+
+function ratio(part: number, total: number): number {
+  return total === 0 ? 0 : part / total;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const index = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, index)] ?? 0;
+}
+
+/**
+ * Counts client events for `getStats()` and forwards them to a metrics sink
+ */
+export class MetricsRecorder {
+  private readonly sink: MetricsSink | undefined;
+  private readonly counts = {
+    apiErrors: 0,
+    apiRequests: 0,
+    cacheHits: 0,
+    cacheMisses: 0,
+    fallbacks: 0,
+    latencyCount: 0,
+    latencySum: 0,
+    revalidations: 0,
+    snapshotHits: 0,
+    staleHits: 0,
+    webhooks: 0,
+  };
+  private readonly latencySamples: number[] = [];
+
+  constructor(sink?: MetricsSink) {
+    this.sink = sink;
+  }
+
+  record<Name extends keyof MetadataHooks>(
+    name: Name,
+    event: MetadataHookEvent<Name>
+  ): void {
+    switch (name) {
+      case 'onCacheHit': {
+        const { state } = event as MetadataHookEvent<'onCacheHit'>;
+        if (state === 'snapshot') {
+          this.counts.snapshotHits += 1;
+          this.sink?.counter(metricNames.snapshotHits, 1);
+          break;
+        }
+        this.counts.cacheHits += 1;
+        if (state === 'stale') {
+          this.counts.staleHits += 1;
+        }
+        this.sink?.counter(metricNames.cacheHits, 1, { state });
+        break;
+      }
+      case 'onCacheMiss': {
+        const { reason } = event as MetadataHookEvent<'onCacheMiss'>;
+        this.counts.cacheMisses += 1;
+        this.sink?.counter(metricNames.cacheMisses, 1, { reason });
+        break;
+      }
+      case 'onFetchSuccess':
+        this.recordRequest(
+          (event as MetadataHookEvent<'onFetchSuccess'>).duration,
+          false
+        );
+        break;
+      case 'onFetchError':
+        this.recordRequest(
+          (event as MetadataHookEvent<'onFetchError'>).duration,
+          true
+        );
+        break;
+      case 'onFallbackUsed':
+        this.counts.fallbacks += 1;
+        this.sink?.counter(metricNames.fallbacks, 1);
+        break;
+      case 'onWebhookReceived':
+        this.counts.webhooks += 1;
+        this.sink?.counter(metricNames.webhooks, 1, {
+          type: (event as MetadataHookEvent<'onWebhookReceived'>).type,
+        });
+        break;
+      case 'onRevalidate':
+        this.counts.revalidations += 1;
+        this.sink?.counter(metricNames.revalidations, 1);
+        break;
+      default:
+        break;
+    }
+  }
+
+  recordCacheSize(cacheStats: LruCacheStats | undefined): void {
+    if (cacheStats) {
+      this.sink?.gauge(metricNames.cacheEntries, cacheStats.entries);
+    }
+  }
+
+  getStats(cacheStats: LruCacheStats | undefined): MetadataClientStats {
+    const sorted = [...this.latencySamples].sort((a, b) => a - b);
+    const lookups = this.counts.cacheHits + this.counts.cacheMisses;
+
+    return {
+      api: {
+        errorRate: ratio(this.counts.apiErrors, this.counts.apiRequests),
+        errors: this.counts.apiErrors,
+        latency: {
+          count: this.counts.latencyCount,
+          p50: percentile(sorted, 50),
+          p95: percentile(sorted, 95),
+          p99: percentile(sorted, 99),
+          sum: this.counts.latencySum,
+        },
+        requests: this.counts.apiRequests,
+      },
+      cache: {
+        hitRatio: ratio(this.counts.cacheHits, lookups),
+        hits: this.counts.cacheHits,
+        misses: this.counts.cacheMisses,
+        snapshotHits: this.counts.snapshotHits,
+        staleHits: this.counts.staleHits,
+        ...cacheStats,
+      },
+      fallbacks: this.counts.fallbacks,
+      revalidations: this.counts.revalidations,
+      webhooks: this.counts.webhooks,
+    };
+  }
+
+  private recordRequest(duration: number, failed: boolean): void {
+    this.counts.apiRequests += 1;
+    this.counts.latencyCount += 1;
+    this.counts.latencySum += duration;
+    this.latencySamples.push(duration);
+    if (this.latencySamples.length > maxLatencySamples) {
+      this.latencySamples.shift();
+    }
+
+    const labels = { outcome: failed ? 'error' : 'success' };
+    this.sink?.counter(metricNames.apiRequests, 1, labels);
+    this.sink?.histogram(metricNames.apiLatency, duration, labels);
+    if (failed) {
+      this.counts.apiErrors += 1;
+      this.sink?.counter(metricNames.apiErrors, 1);
+    }
+  }
+}
+
+export type PrometheusOptions = {
+  /**
+   * Labels added to every sample, e.g. `{ site: 'marketing' }`
+   */
+  labels?: MetricLabels;
+};
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const formatted = entries.map(
+    ([key, value]) =>
+      `${key}="${value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n')}"`
+  );
+  return `{${formatted.join(',')}}`;
+}
+
+/**
+ * Serialize client stats in the Prometheus text exposition format
+ * @param stats - The stats returned by `client.getStats()`
+ * @param options - Labels to add to every sample
+ * @returns The metrics, ready to be served with content type `text/plain; version=0.0.4`
+ */
+export function formatPrometheusMetrics(
+  stats: MetadataClientStats,
+  options: PrometheusOptions = {}
+): string {
+  const { labels = {} } = options;
+  const lines: string[] = [];
+
+  const metric = (
+    name: string,
+    type: 'counter' | 'gauge' | 'summary',
+    help: string,
+    samples: [suffix: string, extraLabels: MetricLabels, value: number][]
+  ) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [suffix, extraLabels, value] of samples) {
+      lines.push(
+        `${name}${suffix}${formatLabels({ ...labels, ...extraLabels })} ${value}`
+      );
+    }
+  };
+
+  metric(metricNames.cacheHits, 'counter', 'Metadata served from the cache', [
+    ['', { state: 'fresh' }, stats.cache.hits - stats.cache.staleHits],
+    ['', { state: 'stale' }, stats.cache.staleHits],
+  ]);
+  metric(metricNames.cacheMisses, 'counter', 'Metadata not in the cache', [
+    ['', {}, stats.cache.misses],
+  ]);
+  metric(
+    metricNames.snapshotHits,
+    'counter',
+    'Metadata served from the snapshot after the API failed',
+    [['', {}, stats.cache.snapshotHits]]
+  );
+  if (stats.cache.entries !== undefined) {
+    metric(metricNames.cacheEntries, 'gauge', 'Entries in the cache', [
+      ['', {}, stats.cache.entries],
+    ]);
+  }
+  metric(metricNames.apiRequests, 'counter', 'Requests made to the API', [
+    ['', {}, stats.api.requests],
+  ]);
+  metric(metricNames.apiErrors, 'counter', 'Failed requests to the API', [
+    ['', {}, stats.api.errors],
+  ]);
+  metric(
+    metricNames.apiLatency,
+    'summary',
+    'Latency of recent API requests in milliseconds',
+    [
+      ['', { quantile: '0.5' }, stats.api.latency.p50],
+      ['', { quantile: '0.95' }, stats.api.latency.p95],
+      ['', { quantile: '0.99' }, stats.api.latency.p99],
+      ['_sum', {}, stats.api.latency.sum],
+      ['_count', {}, stats.api.latency.count],
+    ]
+  );
+  metric(metricNames.fallbacks, 'counter', 'Renders that used the fallback', [
+    ['', {}, stats.fallbacks],
+  ]);
+  metric(metricNames.webhooks, 'counter', 'Webhooks received', [
+    ['', {}, stats.webhooks],
+  ]);
+  metric(metricNames.revalidations, 'counter', 'Paths revalidated', [
+    ['', {}, stats.revalidations],
+  ]);
+
+  return `${lines.join('\n')}\n`;
+}
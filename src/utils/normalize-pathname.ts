@@ -1,8 +1,50 @@
 import normalizeUrl from 'normalize-url';
 
-export function normalizePathname(path: string): string;
-export function normalizePathname(path: string | null): string | null;
-export function normalizePathname(path: string | null): string | null {
+/**
+ * How query parameters are treated when normalizing a path
+ * - `'drop'`: remove every query parameter
+ * - `'keep'`: keep every query parameter, sorted by name
+ * - `{ allow }`: keep only the listed query parameters, sorted by name
+ */
+export type QueryPolicy = 'drop' | 'keep' | { allow: string[] };
+
+export type NormalizePathnameOptions = {
+  /**
+   * @default 'drop'
+   */
+  query?: QueryPolicy;
+};
+
+function applyQueryPolicy(url: URL, policy: QueryPolicy): void {
+  if (policy === 'drop') {
+    url.search = '';
+    return;
+  }
+
+  if (policy === 'keep') {
+    return;
+  }
+
+  const allowed = new Set(policy.allow);
+  for (const name of [...url.searchParams.keys()]) {
+    if (!allowed.has(name)) {
+      url.searchParams.delete(name);
+    }
+  }
+}
+
+export function normalizePathname(
+  path: string,
+  options?: NormalizePathnameOptions
+): string;
+export function normalizePathname(
+  path: string | null,
+  options?: NormalizePathnameOptions
+): string | null;
+export function normalizePathname(
+  path: string | null,
+  options: NormalizePathnameOptions = {}
+): string | null {
   if (!path) {
     return null;
   }
@@ -15,6 +57,7 @@ export function normalizePathname(path: string | null): string | null {
   const url = new URL(path, 'https://example.com');
 
   url.pathname = url.pathname.split('/').map(decodeURIComponent).join('/');
+  applyQueryPolicy(url, options.query ?? 'drop');
 
   // Use normalize-url with options that match our requirements
   const normalized = normalizeUrl(url.href, {
@@ -24,7 +67,7 @@ export function normalizePathname(path: string | null): string | null {
     stripWWW: false,
   });
 
-  // Extract just the pathname from the normalized URL
+  // Extract just the pathname (and any kept query) from the normalized URL
   const normalizedUrl = new URL(normalized);
-  return normalizedUrl.pathname;
+  return normalizedUrl.pathname + normalizedUrl.search;
 }
@@ -0,0 +1,109 @@
+/**
+ * Path patterns match normalized paths segment by segment:
+ * - `/blog`: the exact path
+ * - `/blog/[slug]` or `/blog/*`: any single segment
+ * - `/blog/*.html`: part of a segment
+ * - `/docs/[...slug]`: one or more segments
+ * - `/docs/**` or `/docs/[[...slug]]`: zero or more segments
+ */
+
+const catchAllPattern = /^\[\.\.\.[^\]]+\]$/;
+const optionalCatchAllPattern = /^(\*\*|\[\[\.\.\.[^\]]+\]\])$/;
+const dynamicSegmentPattern = /^\[[^\]]+\]$/;
+const segmentTokenPattern = /(\[[^\]]+\]|\*)/;
+const regexSpecialCharacters = /[.*+?^${}()|[\]\\]/g;
+const patternHintPattern = /[*[]/;
+const rootPathPattern = /^\/$/;
+
+function getSegments(pattern: string): string[] {
+  return pattern.split('/').filter(Boolean);
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(regexSpecialCharacters, '\\$&');
+}
+
+function compileSegment(segment: string): string {
+  if (optionalCatchAllPattern.test(segment)) {
+    return '(?:/.*)?';
+  }
+  if (catchAllPattern.test(segment)) {
+    return '/.+';
+  }
+  const tokens = segment.split(segmentTokenPattern).map((token) => {
+    if (token === '*') {
+      return '[^/]*';
+    }
+    if (dynamicSegmentPattern.test(token)) {
+      return '[^/]+';
+    }
+    return escapeRegex(token);
+  });
+  return `/${tokens.join('')}`;
+}
+
+/**
+ * Whether a string uses pattern syntax rather than being a plain path
+ */
+export function isPathPattern(value: string): boolean {
+  return patternHintPattern.test(value);
+}
+
+/**
+ * Compile a path pattern into a regular expression
+ * @param pattern - The pattern, e.g. `/blog/[slug]`
+ * @returns A regular expression that matches whole paths
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  const segments = getSegments(pattern);
+  if (segments.length === 0) {
+    return rootPathPattern;
+  }
+  return new RegExp(`^${segments.map(compileSegment).join('')}$`);
+}
+
+/**
+ * Check whether a normalized path matches a pattern
+ * @param pattern - The pattern, e.g. `/blog/*`
+ * @param path - The normalized path, e.g. `/blog/hello`
+ */
+export function matchPathPattern(pattern: string, path: string): boolean {
+  return compilePathPattern(pattern).test(path);
+}
+
+function getSegmentRank(segment: string | undefined): number {
+  if (segment === undefined) {
+    // The pattern has ended, which beats a catch-all matching nothing
+    return 1;
+  }
+  if (optionalCatchAllPattern.test(segment) || catchAllPattern.test(segment)) {
+    return 0;
+  }
+  if (dynamicSegmentPattern.test(segment) || segment === '*') {
+    return 2;
+  }
+  if (isPathPattern(segment)) {
+    return 3;
+  }
+  return 4;
+}
+
+/**
+ * Sort comparator that orders more specific patterns first
+ * Static segments beat partial wildcards, which beat single-segment
+ * wildcards, which beat catch-alls
+ */
+export function comparePathPatterns(a: string, b: string): number {
+  const aSegments = getSegments(a);
+  const bSegments = getSegments(b);
+  const length = Math.max(aSegments.length, bSegments.length);
+
+  for (let index = 0; index < length; index++) {
+    const difference =
+      getSegmentRank(bSegments[index]) - getSegmentRank(aSegments[index]);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
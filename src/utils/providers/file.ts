@@ -0,0 +1,161 @@
+import { type FSWatcher, watch } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import type { MetadataApiResponse } from '../..';
+import type { MetadataProvider } from '.';
+import {
+  compilePatternEntries,
+  findPatternEntry,
+  type PatternEntry,
+} from './static';
+
+export type FileProviderOptions = {
+  /**
+   * Parser for `.yaml` and `.yml` files, e.g. `parse` from the `yaml`
+   * package. YAML files are rejected when omitted.
+   */
+  parseYaml?: (source: string) => unknown;
+  /**
+   * Reload the files when they change
+   * @default process.env.NODE_ENV !== 'production'
+   */
+  watch?: boolean;
+};
+
+export type FileMetadataProvider = MetadataProvider & {
+  /**
+   * Stop watching the files
+   */
+  close(): void;
+};
+
+const fileExtensions = new Set(['.json', '.yaml', '.yml']);
+const indexFilePattern = /(^|\/)index$/;
+const windowsSeparatorPattern = /\\/g;
+
+function isMetadataApiResponse(value: unknown): value is MetadataApiResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { metadata?: unknown }).metadata === 'object' &&
+    (value as { metadata?: unknown }).metadata !== null
+  );
+}
+
+// `blog/[slug].json` holds the metadata for `/blog/[slug]`, and
+// `blog/index.json` the metadata for `/blog`
+function getFilePattern(file: string): string {
+  const withoutExtension = file
+    .slice(0, -extname(file).length)
+    .replace(windowsSeparatorPattern, '/')
+    .replace(indexFilePattern, '');
+  return `/${withoutExtension}`;
+}
+
+/**
+ * Get metadata from local JSON or YAML files instead of the API, so metadata
+ * can be authored and previewed without network access
+ *
+ * A file either holds one response for the path named after the file
+ * (`blog/[slug].json`), or maps path patterns to responses:
+ *
+ * ```json
+ * { "/": { "metadata": { "title": "Home" } }, "/blog/*": { "metadata": {} } }
+ * ```
+ *
+ * The most specific matching pattern wins
+ * @param directory - The directory containing the files, e.g. `./metadata`
+ * @param options - How YAML is parsed and whether files are watched
+ */
+export function fileProvider(
+  directory: string,
+  options: FileProviderOptions = {}
+): FileMetadataProvider {
+  const {
+    parseYaml,
+    watch: shouldWatch = process.env.NODE_ENV !== 'production',
+  } = options;
+  let entries: Promise<PatternEntry[]> | undefined;
+  let watcher: FSWatcher | undefined;
+
+  const parseFile = async (file: string): Promise<unknown> => {
+    const source = await readFile(join(directory, file), 'utf8');
+    if (extname(file) === '.json') {
+      return JSON.parse(source);
+    }
+    if (!parseYaml) {
+      throw new Error(
+        `Cannot read ${file}: pass \`parseYaml\` to fileProvider to read YAML files`
+      );
+    }
+    return parseYaml(source);
+  };
+
+  const readEntries = async (
+    file: string
+  ): Promise<[string, MetadataApiResponse][]> => {
+    const contents = await parseFile(file);
+    const values = isMetadataApiResponse(contents)
+      ? [[getFilePattern(file), contents] as const]
+      : Object.entries((contents ?? {}) as Record<string, unknown>);
+
+    return values.map(([pattern, value]) => {
+      if (!(pattern.startsWith('/') && isMetadataApiResponse(value))) {
+        throw new Error(
+          `Invalid metadata for "${pattern}" in ${file}: expected a path pattern mapped to { metadata }`
+        );
+      }
+      return [pattern, value];
+    });
+  };
+
+  const startWatching = () => {
+    if (!shouldWatch || watcher) {
+      return;
+    }
+    try {
+      watcher = watch(directory, { persistent: false, recursive: true }, () => {
+        entries = undefined;
+      });
+      watcher.on('error', () => {
+        watcher?.close();
+      });
+    } catch {
+      // Watching is a convenience, so files are still read without it
+      watcher = undefined;
+    }
+  };
+
+  const loadEntries = async (): Promise<PatternEntry[]> => {
+    startWatching();
+    const files = await readdir(directory, { recursive: true });
+    const fileEntries = await Promise.all(
+      files
+        .filter((file) => fileExtensions.has(extname(file)))
+        .sort()
+        .map(readEntries)
+    );
+    return compilePatternEntries(fileEntries.flat());
+  };
+
+  return {
+    close() {
+      watcher?.close();
+      watcher = undefined;
+    },
+    async getMetadata({ path }) {
+      if (!entries) {
+        const loading = loadEntries();
+        entries = loading;
+        // Retry on the next call rather than caching the failure
+        loading.catch(() => {
+          if (entries === loading) {
+            entries = undefined;
+          }
+        });
+      }
+      return findPatternEntry(await entries, path);
+    },
+    name: 'file',
+  };
+}
@@ -0,0 +1,76 @@
+import _ from 'es-toolkit/compat';
+import type { MetadataApiResponse } from '../..';
+
+export type MetadataProviderContext = {
+  /**
+   * The normalized path, e.g. `/blog/hello`
+   */
+  path: string;
+  /**
+   * Aborted when the render no longer needs the metadata
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Source of metadata, e.g. local files during development
+ * Providers can be chained, in which case each one may return only part of
+ * the metadata and the results are deep-merged
+ */
+export type MetadataProvider = {
+  /**
+   * Name used in logs
+   */
+  name: string;
+  /**
+   * Get the metadata for a path
+   * @returns The metadata, or `null` when the provider has none for the path
+   */
+  getMetadata(
+    context: MetadataProviderContext
+  ): Promise<MetadataApiResponse | null>;
+};
+
+const apiProviderInstance: MetadataProvider = {
+  getMetadata: () =>
+    Promise.reject(
+      new Error('apiProvider() can only be used in a client `provider` chain')
+    ),
+  name: 'api',
+};
+
+/**
+ * The generate-metadata API, with the client's caching, retries and
+ * fallbacks, for use in a provider chain
+ */
+export function apiProvider(): MetadataProvider {
+  return apiProviderInstance;
+}
+
+export function isApiProvider(provider: MetadataProvider): boolean {
+  return provider === apiProviderInstance;
+}
+
+/**
+ * Deep-merge provider results, where earlier results take precedence
+ * Lists are replaced whole rather than merged by index
+ * @param results - The results in order of precedence
+ * @returns The merged metadata, or `null` when no provider had any
+ */
+export function mergeProviderResults(
+  results: (MetadataApiResponse | null)[]
+): MetadataApiResponse | null {
+  const found = results.filter(
+    (result): result is MetadataApiResponse => result !== null
+  );
+  if (found.length <= 1) {
+    return found[0] ?? null;
+  }
+  return _.mergeWith({}, ...found.reverse(), replaceArrays);
+}
+
+// A provider's list, e.g. of images or custom tags, replaces the list of the
+// providers after it rather than being merged item by item
+function replaceArrays(_objValue: unknown, srcValue: unknown): unknown {
+  return Array.isArray(srcValue) ? srcValue : undefined;
+}
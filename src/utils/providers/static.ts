@@ -0,0 +1,54 @@
+import type { MetadataApiResponse } from '../..';
+import { comparePathPatterns, compilePathPattern } from '../path-pattern';
+import type { MetadataProvider } from '.';
+
+export type PatternEntry = {
+  pattern: string;
+  regex: RegExp;
+  value: MetadataApiResponse;
+};
+
+/**
+ * Compile path patterns, ordered so the most specific pattern comes first
+ */
+export function compilePatternEntries(
+  entries: (readonly [string, MetadataApiResponse])[]
+): PatternEntry[] {
+  return entries
+    .map(([pattern, value]) => ({
+      pattern,
+      regex: compilePathPattern(pattern),
+      value,
+    }))
+    .sort((a, b) => comparePathPatterns(a.pattern, b.pattern));
+}
+
+/**
+ * Find the metadata of the most specific pattern that matches a path
+ */
+export function findPatternEntry(
+  entries: PatternEntry[],
+  path: string
+): MetadataApiResponse | null {
+  // Patterns match the pathname, whatever query the client keeps
+  const [pathname = path] = path.split('?');
+  return entries.find((entry) => entry.regex.test(pathname))?.value ?? null;
+}
+
+/**
+ * Get metadata from an object of path patterns, e.g. overrides kept in your
+ * repository
+ * @param entries - Path patterns mapped to metadata, e.g.
+ * `{ '/blog/*': { metadata: { title: 'Blog' } } }`
+ */
+export function staticProvider(
+  entries: Record<string, MetadataApiResponse>
+): MetadataProvider {
+  const patternEntries = compilePatternEntries(Object.entries(entries));
+
+  return {
+    getMetadata: ({ path }) =>
+      Promise.resolve(findPatternEntry(patternEntries, path)),
+    name: 'static',
+  };
+}
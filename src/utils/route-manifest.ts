@@ -0,0 +1,35 @@
+import { isPathPattern } from './path-pattern';
+
+/**
+ * Routes listed by a framework build, e.g. Next's
+ * `.next/routes-manifest.json` or `.next/prerender-manifest.json`
+ */
+export type RouteManifest = {
+  staticRoutes?: { page: string }[];
+  routes?: Record<string, unknown>;
+};
+
+const fileNamePattern = /\.[^/]+$/;
+
+/**
+ * Concrete page paths of a route manifest
+ * Dynamic routes, internal routes such as `/_not-found` and files such as
+ * `/robots.txt` are skipped
+ * @param manifest - The parsed route manifest
+ * @returns The page paths
+ */
+export function getRouteManifestPaths(manifest: RouteManifest): string[] {
+  const paths = [
+    ...(manifest.staticRoutes ?? []).map((route) => route.page),
+    ...Object.keys(manifest.routes ?? {}),
+  ];
+
+  return paths.filter(
+    (path) =>
+      !(
+        isPathPattern(path) ||
+        fileNamePattern.test(path) ||
+        path.split('/').some((segment) => segment.startsWith('_'))
+      )
+  );
+}
@@ -0,0 +1,33 @@
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getSitemapPath, parseSitemap } from '.';
+
+/**
+ * Read the page paths from a sitemap on disk, without network access
+ * Sitemaps listed by a sitemap index are read from the same directory
+ * @param file - The sitemap, e.g. `./public/sitemap.xml` or a `file:` URL
+ * @returns The path of every page, e.g. to pass to `client.warm()`
+ */
+export function readSitemapFile(file: string | URL): Promise<string[]> {
+  const visited = new Set<string>();
+
+  async function read(sitemapFile: string): Promise<string[]> {
+    if (visited.has(sitemapFile)) {
+      return [];
+    }
+    visited.add(sitemapFile);
+
+    const { sitemaps, urls } = parseSitemap(
+      await readFile(sitemapFile, 'utf8')
+    );
+    const nested = await Promise.all(
+      sitemaps.map((location) =>
+        read(join(dirname(sitemapFile), basename(getSitemapPath(location))))
+      )
+    );
+    return [...urls.map(getSitemapPath), ...nested.flat()];
+  }
+
+  return read(typeof file === 'string' ? file : fileURLToPath(file));
+}
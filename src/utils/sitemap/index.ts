@@ -0,0 +1,88 @@
+/**
+ * Locations listed in a sitemap
+ * A sitemap index lists other sitemaps in `sitemaps` rather than pages
+ */
+export type ParsedSitemap = {
+  urls: string[];
+  sitemaps: string[];
+};
+
+const entryPattern = /<(url|sitemap)\b[^>]*>([\s\S]*?)<\/\1>/g;
+const locPattern =
+  /<loc>\s*(?:<!\[CDATA\[([\s\S]*?)\]\]>|([\s\S]*?))\s*<\/loc>/;
+const entityPattern = /&(amp|apos|gt|lt|quot);/g;
+const entities: Record<string, string> = {
+  amp: '&',
+  apos: "'",
+  gt: '>',
+  lt: '<',
+  quot: '"',
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    entityPattern,
+    (_, name: string) => entities[name] ?? ''
+  );
+}
+
+/**
+ * Read the locations from the XML of a sitemap or sitemap index
+ * @param xml - The contents of e.g. `sitemap.xml`
+ * @returns The page and sitemap locations, in document order
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const sitemap: ParsedSitemap = { sitemaps: [], urls: [] };
+
+  for (const [, tag, body = ''] of xml.matchAll(entryPattern)) {
+    const match = locPattern.exec(body);
+    const location = match?.[1] ?? decodeEntities(match?.[2] ?? '');
+    if (location) {
+      (tag === 'url' ? sitemap.urls : sitemap.sitemaps).push(location);
+    }
+  }
+
+  return sitemap;
+}
+
+/**
+ * Path of a sitemap location, e.g. `/blog?page=2` for
+ * `https://example.com/blog?page=2`
+ */
+export function getSitemapPath(location: string): string {
+  const url = new URL(location, 'http://localhost');
+  return `${url.pathname}${url.search}`;
+}
+
+/**
+ * Fetch the page paths from a sitemap URL, following the sitemaps listed by
+ * a sitemap index
+ * @param url - The sitemap, e.g. `https://example.com/sitemap.xml`
+ * @param fetchFn - The `fetch` implementation to use
+ * @returns The path of every page, e.g. to pass to `client.warm()`
+ */
+export function fetchSitemap(
+  url: string,
+  fetchFn: (input: Request) => Promise<Response> = fetch
+): Promise<string[]> {
+  const visited = new Set<string>();
+
+  async function read(sitemapUrl: string): Promise<string[]> {
+    if (visited.has(sitemapUrl)) {
+      return [];
+    }
+    visited.add(sitemapUrl);
+
+    const res = await fetchFn(new Request(sitemapUrl));
+    if (!res.ok) {
+      throw new Error(`Failed to fetch sitemap ${sitemapUrl}: ${res.status}`);
+    }
+    const { sitemaps, urls } = parseSitemap(await res.text());
+    const nested = await Promise.all(
+      sitemaps.map((location) => read(new URL(location, sitemapUrl).href))
+    );
+    return [...urls.map(getSitemapPath), ...nested.flat()];
+  }
+
+  return read(url);
+}
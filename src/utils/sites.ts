@@ -0,0 +1,53 @@
+export type SiteCredentials = {
+  dsn: string;
+  apiKey?: string;
+};
+
+/**
+ * Sites served by one client, as a map from hostname to credentials or a
+ * function that resolves them
+ */
+export type SitesOption =
+  | Record<string, SiteCredentials>
+  | ((
+      hostname: string
+    ) => SiteCredentials | undefined | Promise<SiteCredentials | undefined>);
+
+const portPattern = /:\d+$/;
+const trailingDotPattern = /\.$/;
+
+/**
+ * Normalize a `Host` header value to a bare hostname
+ * @param host - The header value, e.g. `Example.com:3000`
+ * @returns The hostname, e.g. `example.com`
+ */
+export function normalizeHostname(host: string): string {
+  const [first = ''] = host.split(',');
+  return first
+    .trim()
+    .toLowerCase()
+    .replace(portPattern, '')
+    .replace(trailingDotPattern, '');
+}
+
+/**
+ * Find the credentials of the site served at a hostname
+ * @param sites - The sites option of the client
+ * @param hostname - The hostname of the request
+ * @returns The credentials, or `undefined` when no site is configured
+ */
+export async function resolveSiteCredentials(
+  sites: SitesOption,
+  hostname: string
+): Promise<SiteCredentials | undefined> {
+  const normalizedHostname = normalizeHostname(hostname);
+
+  if (typeof sites === 'function') {
+    return await sites(normalizedHostname);
+  }
+
+  const match = Object.entries(sites).find(
+    ([key]) => normalizeHostname(key) === normalizedHostname
+  );
+  return match?.[1];
+}
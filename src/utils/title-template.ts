@@ -0,0 +1,15 @@
+/**
+ * Apply a site title template such as `%s | Acme` to a page title
+ * @param title - The page title
+ * @param template - The site title template, where `%s` is the page title
+ * @returns The templated title, or the title unchanged when there is no template
+ */
+export function applyTitleTemplate(
+  title: string,
+  template: string | null | undefined
+): string {
+  if (!template?.includes('%s')) {
+    return title;
+  }
+  return template.replace('%s', title);
+}
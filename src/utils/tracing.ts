@@ -0,0 +1,107 @@
+/**
+ * Minimal tracing types, shaped like `@opentelemetry/api` so an OpenTelemetry
+ * tracer can be passed in without generate-metadata depending on it
+ */
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export type Span = {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+  spanContext?(): { traceId: string; spanId: string; traceFlags: number };
+};
+
+export type Tracer = {
+  startActiveSpan<F extends (span: Span) => unknown>(
+    name: string,
+    options: { attributes?: SpanAttributes },
+    fn: F
+  ): ReturnType<F>;
+};
+
+export const spanAttributes = {
+  cacheStatus: 'generate_metadata.cache_status',
+  dsn: 'generate_metadata.dsn',
+  path: 'generate_metadata.path',
+  revisionId: 'generate_metadata.revision_id',
+  webhookType: 'generate_metadata.webhook_type',
+} as const;
+
+// Matches `SpanStatusCode.ERROR` from `@opentelemetry/api`
+const spanStatusError = 2;
+
+function recordError(span: Span, err: unknown) {
+  const exception = err instanceof Error ? err : String(err);
+  span.recordException(exception);
+  span.setStatus({
+    code: spanStatusError,
+    message: err instanceof Error ? err.message : String(err),
+  });
+}
+
+/**
+ * Run `fn` inside an active span, ending it once `fn` (or its promise) settles
+ * Runs `fn` without a span when no tracer is configured
+ * @param tracer - The tracer, if any
+ * @param name - The span name
+ * @param attributes - Attributes known when the span starts
+ * @param fn - The work to trace
+ * @returns The result of `fn`
+ */
+export function trace<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span | undefined) => T
+): T {
+  if (!tracer) {
+    return fn(undefined);
+  }
+
+  return tracer.startActiveSpan(name, { attributes }, (span: Span) => {
+    let result: T;
+    try {
+      result = fn(span);
+    } catch (err) {
+      recordError(span, err);
+      span.end();
+      throw err;
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        (value) => {
+          span.end();
+          return value;
+        },
+        (err: unknown) => {
+          recordError(span, err);
+          span.end();
+          throw err;
+        }
+      ) as T;
+    }
+
+    span.end();
+    return result;
+  });
+}
+
+/**
+ * Build a W3C `traceparent` header for a span so the API can join the trace
+ * @param span - The current span, if any
+ * @returns The header value, or `undefined` when there is no span context
+ */
+export function getTraceparent(span: Span | undefined): string | undefined {
+  const context = span?.spanContext?.();
+  if (!context) {
+    return;
+  }
+
+  const flags = context.traceFlags.toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}